@@ -1,17 +1,66 @@
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useMemo } from "react";
 import { Navigation } from "@/components/ui/Navigation";
 import { FileUpload } from "@/components/ui/FileUpload";
 import { BillingChart } from "@/components/charts/BillingChart";
 import { ServiceChart } from "@/components/charts/ServiceChart";
+import { ForecastPanel } from "@/components/charts/ForecastPanel";
+import { SpendAnalysisChart } from "@/components/charts/SpendAnalysisChart";
+import { OtherProductsBreakdown } from "@/components/charts/OtherProductsBreakdown";
+import { OverviewDashboard } from "@/components/charts/OverviewDashboard";
 import { Tabs } from "@/components/ui/Tabs";
 import { DataFilters } from "@/components/ui/DataFilters";
+import { GlobalFilterBar } from "@/components/ui/GlobalFilterBar";
+import { ReportSourcesSummary } from "@/components/ui/ReportSourcesSummary";
+import { DataQualityPanel } from "@/components/ui/DataQualityPanel";
+import { CategorizationRulesEditor } from "@/components/ui/CategorizationRulesEditor";
+import { SavedViewsPanel } from "@/components/ui/SavedViewsPanel";
+import { summarizeCategorizedData } from "@/lib/fileParser";
+import {
+  EMPTY_FILTERS,
+  FilterState,
+  hasActiveFilters,
+  selectRows,
+} from "@/lib/filters";
+import { ColumnarDataset } from "@/lib/columnarDataset";
+import {
+  Breakdown,
+  DEFAULT_TAB,
+  StorageUnit,
+  ViewState,
+  formatViewHash,
+  getDefaultBreakdowns,
+  getDefaultStorageUnits,
+  parseViewHash,
+} from "@/lib/viewState";
+import { DEFAULT_GRANULARITY, Granularity } from "@/lib/granularity";
+import {
+  loadBillingCycleStartDay,
+  saveBillingCycleStartDay,
+} from "@/lib/billingCycle";
+import {
+  SavedView,
+  loadSavedViews,
+  saveSavedViews,
+} from "@/lib/savedViews";
+import {
+  CategorizationRule,
+  categorizeWithRules,
+  loadCategorizationRules,
+  saveCategorizationRules,
+} from "@/lib/categorizationRules";
+import {
+  OTHER_SERVICE_ID,
+  SERVICE_REGISTRY,
+  ServiceId,
+} from "@/lib/serviceRegistry";
 import {
   GitHubBillingReport,
   BillingData,
   CategorizedBillingData,
-  ServiceData,
+  ParseDiagnostics,
+  ReportSource,
 } from "@/types/billing";
 
 const sampleBillingData: BillingData[] = [
@@ -23,55 +72,222 @@ const sampleBillingData: BillingData[] = [
   { month: "Jun", actions: 250, packages: 140, storage: 60 },
 ];
 
+/** Rows matching filters, across every service and per service */
+function selectServiceRows(
+  dataset: ColumnarDataset,
+  datasets: Record<string, ColumnarDataset>,
+  filters: FilterState
+) {
+  return {
+    all: { dataset, selection: selectRows(dataset, filters) },
+    services: Object.fromEntries(
+      Object.entries(datasets).map(([service, serviceDataset]) => [
+        service,
+        {
+          dataset: serviceDataset,
+          selection: selectRows(serviceDataset, filters),
+        },
+      ])
+    ),
+  };
+}
+
 export default function Home() {
   const [billingData, setBillingData] =
     useState<BillingData[]>(sampleBillingData);
   const [categorizedData, setCategorizedData] =
     useState<CategorizedBillingData | null>(null);
-  const [filteredData, setFilteredData] =
-    useState<CategorizedBillingData | null>(null);
+  const [globalFilters, setGlobalFilters] =
+    useState<FilterState>(EMPTY_FILTERS);
+  // Tabs that replace the global filters with their own
+  const [filterOverrides, setFilterOverrides] = useState<
+    Record<string, FilterState>
+  >({});
+  const [reportSources, setReportSources] = useState<ReportSource[]>([]);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostics[]>([]);
   const [hasUploadedData, setHasUploadedData] = useState(false);
-  const [breakdown, setBreakdown] = useState<
-    Record<string, "cost" | "quantity">
-  >({
-    actionsMinutes: "quantity",
-    actionsStorage: "quantity",
-    packages: "quantity",
-    copilot: "quantity",
-    codespaces: "quantity",
-  });
-  const [storageUnit, setStorageUnit] = useState<
-    Record<string, "gb-hours" | "gb-months">
-  >({
-    actionsStorage: "gb-hours",
-    packages: "gb-hours",
-  });
+  const [activeTab, setActiveTab] = useState(DEFAULT_TAB);
+  const [rules, setRules] = useState<CategorizationRule[]>(
+    loadCategorizationRules
+  );
+  const [breakdown, setBreakdown] =
+    useState<Record<string, Breakdown>>(getDefaultBreakdowns);
+  const [storageUnit, setStorageUnit] = useState<Record<string, StorageUnit>>(
+    getDefaultStorageUnits
+  );
+  const [savedViews, setSavedViews] = useState<SavedView[]>(loadSavedViews);
+  const [billingCycleStartDay, setBillingCycleStartDay] = useState(
+    loadBillingCycleStartDay
+  );
+  const [granularity, setGranularity] =
+    useState<Granularity>(DEFAULT_GRANULARITY);
+
+  const currentView = useMemo<ViewState>(
+    () => ({
+      tab: activeTab,
+      filters: globalFilters,
+      overrides: filterOverrides,
+      breakdown,
+      storageUnit,
+      granularity,
+    }),
+    [
+      activeTab,
+      globalFilters,
+      filterOverrides,
+      breakdown,
+      storageUnit,
+      granularity,
+    ]
+  );
+
+  // Indexed copy of every row that filters, facets and charts run over,
+  // built once per upload, and its view of each service
+  const dataset = useMemo(
+    () =>
+      categorizedData
+        ? ColumnarDataset.fromCategorized(categorizedData)
+        : ColumnarDataset.fromRows([]),
+    [categorizedData]
+  );
+
+  const datasets = useMemo(() => {
+    if (!categorizedData) return null;
+    return Object.fromEntries(
+      Object.keys(categorizedData).map((service) => [
+        service,
+        dataset.forService(service),
+      ])
+    );
+  }, [dataset, categorizedData]);
+
+  // All categorized rows, for views that span every service
+  const allServiceData = useMemo(() => dataset.getRows(), [dataset]);
+
+  // Rows after the shared filters, which tabs without an override reuse
+  const globalRows = useMemo(
+    () => datasets && selectServiceRows(dataset, datasets, globalFilters),
+    [dataset, datasets, globalFilters]
+  );
+
+  // Rows of each service after its tab's filters
+  const serviceRows = useMemo(() => {
+    if (!datasets || !globalRows) return null;
+    return Object.fromEntries(
+      Object.entries(datasets).map(([service, serviceDataset]) => {
+        const override = filterOverrides[service];
+        return [
+          service,
+          override
+            ? {
+                dataset: serviceDataset,
+                selection: selectRows(serviceDataset, override),
+              }
+            : globalRows.services[service],
+        ];
+      })
+    );
+  }, [datasets, globalRows, filterOverrides]);
+
+  // Uncategorized rows, listed product by product
+  const otherRows = serviceRows?.[OTHER_SERVICE_ID];
+  const otherProductsData = useMemo(
+    () => (otherRows ? otherRows.dataset.getRowsOf(otherRows.selection) : []),
+    [otherRows]
+  );
+
+  const spendOverride = filterOverrides.spendAnalysis;
+  const spendRows = useMemo(
+    () =>
+      datasets && spendOverride
+        ? selectServiceRows(dataset, datasets, spendOverride)
+        : globalRows,
+    [dataset, datasets, spendOverride, globalRows]
+  );
+
+  const applyView = useCallback((view: ViewState) => {
+    setActiveTab(view.tab);
+    setGlobalFilters(view.filters);
+    setFilterOverrides(view.overrides);
+    setBreakdown(view.breakdown);
+    setStorageUnit(view.storageUnit);
+    setGranularity(view.granularity);
+  }, []);
+
+  // Keep the URL hash in step with the view so it can be shared
+  useEffect(() => {
+    if (!hasUploadedData) return;
+    const hash = formatViewHash(currentView);
+    if (hash !== window.location.hash.replace(/^#/, "")) {
+      const { pathname, search } = window.location;
+      window.history.replaceState(
+        null,
+        "",
+        `${pathname}${search}${hash ? `#${hash}` : ""}`
+      );
+    }
+  }, [hasUploadedData, currentView]);
+
+  // Follow links to another view pasted while a report is open
+  useEffect(() => {
+    if (!hasUploadedData) return;
+    const handleHashChange = () =>
+      applyView(parseViewHash(window.location.hash));
+    window.addEventListener("hashchange", handleHashChange);
+    return () => window.removeEventListener("hashchange", handleHashChange);
+  }, [hasUploadedData, applyView]);
 
   const handleDataLoaded = (report: GitHubBillingReport) => {
     setBillingData(report.data);
     setCategorizedData(report.categorizedData || null);
-    setFilteredData(report.categorizedData || null);
+    setReportSources(report.sources || []);
+    setDiagnostics(report.diagnostics || []);
+    // Open the view from a shared link, if there is one
+    applyView(parseViewHash(window.location.hash));
     setHasUploadedData(true);
   };
 
-  const handleFiltersChange = useCallback(
-    (
-      serviceType: keyof CategorizedBillingData,
-      filteredServiceData: ServiceData[]
-    ) => {
-      setFilteredData((prev) => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          [serviceType]: filteredServiceData,
-        };
+  const handleSavedViewsChange = (views: SavedView[]) => {
+    saveSavedViews(views);
+    setSavedViews(views);
+  };
+
+  const handleApplyRules = (newRules: CategorizationRule[]) => {
+    saveCategorizationRules(newRules);
+    setRules(newRules);
+
+    const recategorized = categorizeWithRules(allServiceData, newRules);
+    setBillingData(
+      summarizeCategorizedData(recategorized, billingCycleStartDay).data
+    );
+    setCategorizedData(recategorized);
+  };
+
+  const handleBillingCycleStartDayChange = (day: number) => {
+    saveBillingCycleStartDay(day);
+    setBillingCycleStartDay(day);
+    if (categorizedData) {
+      setBillingData(summarizeCategorizedData(categorizedData, day).data);
+    }
+  };
+
+  const handleOverrideChange = useCallback(
+    (tabId: string, override: FilterState | undefined) => {
+      setFilterOverrides((prev) => {
+        const next = { ...prev };
+        if (override) {
+          next[tabId] = override;
+        } else {
+          delete next[tabId];
+        }
+        return next;
       });
     },
     []
   );
 
   const handleBreakdownChange = useCallback(
-    (serviceType: string, newBreakdown: "cost" | "quantity") => {
+    (serviceType: ServiceId, newBreakdown: Breakdown) => {
       setBreakdown((prev) => ({
         ...prev,
         [serviceType]: newBreakdown,
@@ -81,7 +297,7 @@ export default function Home() {
   );
 
   const handleStorageUnitChange = useCallback(
-    (serviceType: string, newUnit: "gb-hours" | "gb-months") => {
+    (serviceType: ServiceId, newUnit: StorageUnit) => {
       setStorageUnit((prev) => ({
         ...prev,
         [serviceType]: newUnit,
@@ -90,45 +306,34 @@ export default function Home() {
     []
   );
 
-  // Memoized breakdown change handlers to prevent re-renders
-  const handleActionsMinutesBreakdownChange = useCallback(
-    (newBreakdown: "cost" | "quantity") => {
-      handleBreakdownChange("actionsMinutes", newBreakdown);
-    },
-    [handleBreakdownChange]
-  );
-
-  const handleActionsStorageBreakdownChange = useCallback(
-    (newBreakdown: "cost" | "quantity") => {
-      handleBreakdownChange("actionsStorage", newBreakdown);
-    },
-    [handleBreakdownChange]
-  );
-
-  const handlePackagesBreakdownChange = useCallback(
-    (newBreakdown: "cost" | "quantity") => {
-      handleBreakdownChange("packages", newBreakdown);
-    },
-    [handleBreakdownChange]
-  );
-
-  const handleActionsStorageUnitChange = useCallback(
-    (newUnit: "gb-hours" | "gb-months") => {
-      handleStorageUnitChange("actionsStorage", newUnit);
-    },
-    [handleStorageUnitChange]
-  );
-
-  const handlePackagesUnitChange = useCallback(
-    (newUnit: "gb-hours" | "gb-months") => {
-      handleStorageUnitChange("packages", newUnit);
-    },
-    [handleStorageUnitChange]
+  // Memoized per-service handlers to prevent re-renders
+  const serviceHandlers = useMemo(
+    () =>
+      Object.fromEntries(
+        SERVICE_REGISTRY.map((service) => [
+          service.id,
+          {
+            onOverrideChange: (override: FilterState | undefined) =>
+              handleOverrideChange(service.id, override),
+            onBreakdownChange: (newBreakdown: Breakdown) =>
+              handleBreakdownChange(service.id, newBreakdown),
+            onStorageUnitChange: (newUnit: StorageUnit) =>
+              handleStorageUnitChange(service.id, newUnit),
+          },
+        ])
+      ),
+    [handleOverrideChange, handleBreakdownChange, handleStorageUnitChange]
   );
 
   // Create tabs based on available data
   const createTabs = () => {
-    if (!categorizedData || !filteredData) {
+    if (
+      !categorizedData ||
+      !datasets ||
+      !serviceRows ||
+      !globalRows ||
+      !spendRows
+    ) {
       return [
         {
           id: "overview",
@@ -143,154 +348,134 @@ export default function Home() {
       ];
     }
 
-    return [
-      {
-        id: "actionsMinutes",
-        label: "Actions Minutes",
+    const serviceTabs = SERVICE_REGISTRY.filter(
+      // Only show tabs with data
+      (service) => (categorizedData[service.id] || []).length > 0
+    ).map((service) => {
+      const serviceDataset = datasets[service.id];
+      const rows = serviceRows[service.id];
+      const handlers = serviceHandlers[service.id];
+
+      // Use SKU analysis when all organizations are shown (no organization filter applied)
+      const useSkuAnalysis = (() => {
+        if (!service.detailedSingleOrgView) return false;
+        const organizationCount =
+          serviceDataset.getUniqueValues("organization").length;
+        return (
+          serviceDataset.countDistinct(rows.selection, "organization") ===
+            organizationCount && organizationCount > 1
+        );
+      })();
+
+      return {
+        id: service.id,
+        label: service.label,
         content: (
           <div>
             <DataFilters
-              data={categorizedData.actionsMinutes}
-              onFiltersChange={(filtered) =>
-                handleFiltersChange("actionsMinutes", filtered)
+              dataset={serviceDataset}
+              globalFilters={globalFilters}
+              override={filterOverrides[service.id]}
+              onOverrideChange={handlers.onOverrideChange}
+              breakdown={breakdown[service.id]}
+              onBreakdownChange={
+                service.breakdownSelector
+                  ? handlers.onBreakdownChange
+                  : undefined
               }
-              onBreakdownChange={handleActionsMinutesBreakdownChange}
-              serviceType="actionsMinutes"
-            />
-            <ServiceChart
-              data={filteredData.actionsMinutes}
-              title="GitHub Actions Minutes"
-              serviceType="actionsMinutes"
-              breakdown={breakdown.actionsMinutes}
-              useSkuAnalysis={(() => {
-                // Use SKU analysis when all organizations are shown (no organization filter applied)
-                const originalOrgs = new Set(
-                  categorizedData.actionsMinutes
-                    .map((item) => item.organization)
-                    .filter(Boolean)
-                );
-                const filteredOrgs = new Set(
-                  filteredData.actionsMinutes
-                    .map((item) => item.organization)
-                    .filter(Boolean)
-                );
-                return (
-                  originalOrgs.size === filteredOrgs.size &&
-                  originalOrgs.size > 1
-                );
-              })()}
-            />
-          </div>
-        ),
-      },
-      {
-        id: "actionsStorage",
-        label: "Actions Storage",
-        content: (
-          <div>
-            <DataFilters
-              data={categorizedData.actionsStorage}
-              onFiltersChange={(filtered) =>
-                handleFiltersChange("actionsStorage", filtered)
+              storageUnit={storageUnit[service.id]}
+              onStorageUnitChange={
+                service.storageUnits ? handlers.onStorageUnitChange : undefined
               }
-              onBreakdownChange={handleActionsStorageBreakdownChange}
-              onStorageUnitChange={handleActionsStorageUnitChange}
-              serviceType="actionsStorage"
+              serviceType={service.id}
+              billingCycleStartDay={billingCycleStartDay}
             />
+            {service.id === OTHER_SERVICE_ID && (
+              <OtherProductsBreakdown data={otherProductsData} />
+            )}
+            {rows.selection.length > 0 && (
+              <ForecastPanel
+                rows={rows}
+                serviceType={service.id}
+                breakdown={breakdown[service.id]}
+                storageUnit={storageUnit[service.id]}
+                billingCycleStartDay={billingCycleStartDay}
+              />
+            )}
             <ServiceChart
-              data={filteredData.actionsStorage}
-              title="GitHub Actions Storage"
-              serviceType="actionsStorage"
-              breakdown={breakdown.actionsStorage}
-              storageUnit={storageUnit.actionsStorage}
+              rows={rows}
+              title={service.title}
+              serviceType={service.id}
+              breakdown={breakdown[service.id]}
+              storageUnit={storageUnit[service.id]}
+              useSkuAnalysis={useSkuAnalysis}
+              granularity={granularity}
+              billingCycleStartDay={billingCycleStartDay}
             />
           </div>
         ),
-      },
-      {
-        id: "packages",
-        label: "Packages",
-        content: (
-          <div>
-            <DataFilters
-              data={categorizedData.packages}
-              onFiltersChange={(filtered) =>
-                handleFiltersChange("packages", filtered)
-              }
-              onBreakdownChange={handlePackagesBreakdownChange}
-              onStorageUnitChange={handlePackagesUnitChange}
-              serviceType="packages"
-            />
-            <ServiceChart
-              data={filteredData.packages}
-              title="GitHub Packages"
-              serviceType="packages"
-              breakdown={breakdown.packages}
-              storageUnit={storageUnit.packages}
-            />
-          </div>
-        ),
-      },
+      };
+    });
+
+    return [
       {
-        id: "copilot",
-        label: "Copilot",
+        id: "overview",
+        label: "Overview",
         content: (
-          <div>
-            <DataFilters
-              data={categorizedData.copilot}
-              onFiltersChange={(filtered) =>
-                handleFiltersChange("copilot", filtered)
-              }
-              serviceType="copilot"
-            />
-            <ServiceChart
-              data={filteredData.copilot}
-              title="GitHub Copilot"
-              serviceType="copilot"
-            />
-          </div>
+          <OverviewDashboard
+            rows={globalRows.all}
+            serviceRows={globalRows.services}
+            isFiltered={hasActiveFilters(globalFilters)}
+            onNavigate={setActiveTab}
+            billingCycleStartDay={billingCycleStartDay}
+            granularity={granularity}
+          />
         ),
       },
+      ...serviceTabs,
+      ...(allServiceData.length > 0
+        ? [
+            {
+              id: "spendAnalysis",
+              label: "Spend Analysis",
+              content: (
+                <div>
+                  <DataFilters
+                    dataset={dataset}
+                    globalFilters={globalFilters}
+                    override={filterOverrides.spendAnalysis}
+                    onOverrideChange={(override) =>
+                      handleOverrideChange("spendAnalysis", override)
+                    }
+                    billingCycleStartDay={billingCycleStartDay}
+                  />
+                  <SpendAnalysisChart
+                    rows={spendRows.all}
+                    serviceRows={spendRows.services}
+                    granularity={granularity}
+                    billingCycleStartDay={billingCycleStartDay}
+                  />
+                </div>
+              ),
+            },
+          ]
+        : []),
       {
-        id: "codespaces",
-        label: "Codespaces",
+        id: "rules",
+        label: "Rules",
         content: (
-          <div>
-            <DataFilters
-              data={categorizedData.codespaces}
-              onFiltersChange={(filtered) =>
-                handleFiltersChange("codespaces", filtered)
-              }
-              serviceType="codespaces"
-            />
-            <ServiceChart
-              data={filteredData.codespaces}
-              title="GitHub Codespaces"
-              serviceType="codespaces"
-            />
-          </div>
+          <CategorizationRulesEditor
+            data={allServiceData}
+            rules={rules}
+            onApply={handleApplyRules}
+          />
         ),
       },
-    ].filter((tab) => {
-      // Only show tabs with data
-      switch (tab.id) {
-        case "actionsMinutes":
-          return categorizedData.actionsMinutes.length > 0;
-        case "actionsStorage":
-          return categorizedData.actionsStorage.length > 0;
-        case "packages":
-          return categorizedData.packages.length > 0;
-        case "copilot":
-          return categorizedData.copilot.length > 0;
-        case "codespaces":
-          return categorizedData.codespaces.length > 0;
-        default:
-          return true;
-      }
-    });
+    ];
   };
 
   const tabs = createTabs();
+  const tabLabels = Object.fromEntries(tabs.map((tab) => [tab.id, tab.label]));
 
   return (
     <div className="min-h-screen bg-gray-950 text-white">
@@ -333,8 +518,17 @@ export default function Home() {
                   onClick={() => {
                     setHasUploadedData(false);
                     setCategorizedData(null);
-                    setFilteredData(null);
+                    setGlobalFilters(EMPTY_FILTERS);
+                    setFilterOverrides({});
+                    setReportSources([]);
+                    setDiagnostics([]);
                     setBillingData(sampleBillingData);
+                    // The view no longer applies without the report
+                    window.history.replaceState(
+                      null,
+                      "",
+                      window.location.pathname + window.location.search
+                    );
                   }}
                   className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-300 bg-gray-800/50 border border-gray-600 rounded-lg hover:bg-gray-700/50 hover:border-gray-500 transition-colors"
                 >
@@ -355,15 +549,47 @@ export default function Home() {
                 </button>
               </div>
 
-              {/* Full Width Visualization */}
-              <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-xl p-8">
-                <div className="mb-6">
-                  <h2 className="text-2xl font-bold mb-2">Service Breakdown</h2>
-                  <p className="text-gray-400">
-                    Detailed cost and usage analysis by GitHub service
-                  </p>
+              {/* Merged Source Files */}
+              {reportSources.length > 1 && (
+                <ReportSourcesSummary sources={reportSources} />
+              )}
+
+              {/* Skipped and suspicious rows */}
+              <DataQualityPanel diagnostics={diagnostics} />
+
+              {/* Saved Views Sidebar and Visualization */}
+              <div className="grid grid-cols-1 lg:grid-cols-[16rem_minmax(0,1fr)] gap-6 items-start">
+                <SavedViewsPanel
+                  views={savedViews}
+                  currentView={currentView}
+                  tabLabels={tabLabels}
+                  onApply={applyView}
+                  onChange={handleSavedViewsChange}
+                />
+                <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-xl p-8">
+                  <div className="mb-6">
+                    <h2 className="text-2xl font-bold mb-2">Service Breakdown</h2>
+                    <p className="text-gray-400">
+                      Detailed cost and usage analysis by GitHub service
+                    </p>
+                  </div>
+                  <GlobalFilterBar
+                    dataset={dataset}
+                    filters={globalFilters}
+                    onChange={setGlobalFilters}
+                    billingCycleStartDay={billingCycleStartDay}
+                    onBillingCycleStartDayChange={
+                      handleBillingCycleStartDayChange
+                    }
+                    granularity={granularity}
+                    onGranularityChange={setGranularity}
+                  />
+                  <Tabs
+                    tabs={tabs}
+                    activeTab={activeTab}
+                    onTabChange={setActiveTab}
+                  />
                 </div>
-                <Tabs tabs={tabs} defaultTab="actionsMinutes" />
               </div>
             </div>
           )}
@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import {
   AreaChart,
   Area,
@@ -11,6 +12,7 @@ import {
   ResponsiveContainer,
 } from "recharts";
 import { BillingData } from "@/types/billing";
+import { fitChartPoints } from "@/lib/granularity";
 
 interface BillingChartProps {
   data: BillingData[];
@@ -21,6 +23,13 @@ export function BillingChart({
   data,
   title = "GitHub Billing Overview",
 }: BillingChartProps) {
+  const [chartWidth, setChartWidth] = useState<number>();
+  const chartData = fitChartPoints(
+    data,
+    chartWidth,
+    (point) => point.actions + point.packages + point.storage,
+  );
+
   return (
     <div className="w-full">
       {title && (
@@ -28,8 +37,12 @@ export function BillingChart({
           {title}
         </h3>
       )}
-      <ResponsiveContainer width="100%" height={400}>
-        <AreaChart data={data}>
+      <ResponsiveContainer
+        width="100%"
+        height={400}
+        onResize={(width) => setChartWidth(Math.round(width))}
+      >
+        <AreaChart data={chartData}>
           <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
           <XAxis dataKey="month" stroke="#9CA3AF" tick={{ fill: "#9CA3AF" }} />
           <YAxis stroke="#9CA3AF" tick={{ fill: "#9CA3AF" }} />
@@ -41,6 +54,14 @@ export function BillingChart({
               color: "#F9FAFB",
             }}
             formatter={(value: number) => [`$${value.toFixed(2)}`, ""]}
+            // Spell out the dates when periods follow a billing cycle
+            labelFormatter={(label, payload) => {
+              const period: BillingData["period"] =
+                payload?.[0]?.payload?.period;
+              return period
+                ? `${label} (${period.start} to ${period.end})`
+                : label;
+            }}
           />
           <Legend />
           <Area
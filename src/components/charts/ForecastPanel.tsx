@@ -0,0 +1,365 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { TrendingUp } from "lucide-react";
+import { ServiceId } from "@/lib/serviceRegistry";
+import { Breakdown, StorageUnit } from "@/lib/viewState";
+import { BucketTotals, aggregate } from "@/lib/aggregation";
+import { DatasetRows } from "@/lib/columnarDataset";
+import {
+  CONFIDENCE_LEVEL,
+  FORECAST_HORIZONS,
+  FORECAST_MODELS,
+  ForecastHorizon,
+  ForecastModel,
+  forecastToPeriodEnd,
+} from "@/lib/forecast";
+import { formatPeriodLabel, labelChartPoints } from "@/lib/granularity";
+import { formatCurrency } from "@/lib/chartFormat";
+import { formatQuantityForUnit, getUnitType } from "@/lib/units";
+
+type ForecastSplit = "none" | "organization" | "costCenter";
+
+const SPLITS: { id: ForecastSplit; label: string }[] = [
+  { id: "none", label: "Total" },
+  { id: "organization", label: "Organization" },
+  { id: "costCenter", label: "Cost center" },
+];
+
+// Groups forecast one by one when split, the rest as "Others"
+const TOP_GROUPS = 10;
+
+interface ForecastPanelProps {
+  rows: DatasetRows;
+  serviceType: ServiceId;
+  breakdown?: Breakdown;
+  storageUnit?: StorageUnit;
+  billingCycleStartDay?: number;
+}
+
+const selectClassName =
+  "px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+/**
+ * Projects a service's cost and usage to the end of the current month or
+ * quarter, in total and per organization or cost center. Hidden until
+ * opened, as it only matters for reports that run up to the present.
+ */
+export function ForecastPanel({
+  rows,
+  serviceType,
+  breakdown = "cost",
+  storageUnit = "gb-hours",
+  billingCycleStartDay,
+}: ForecastPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [model, setModel] = useState<ForecastModel>("linear");
+  const [horizon, setHorizon] = useState<ForecastHorizon>("month");
+  const [split, setSplit] = useState<ForecastSplit>("none");
+
+  const forecast = useMemo(() => {
+    if (!isOpen || rows.selection.length === 0) return null;
+
+    const options = { model, horizon, billingCycleStartDay };
+    const project = (
+      series: BucketTotals[],
+      read: (point: BucketTotals) => number,
+    ) =>
+      forecastToPeriodEnd(
+        series.map((point) => ({ date: point.date, value: read(point) })),
+        options,
+      );
+
+    const days = aggregate(rows).series;
+    const cost = project(days, (point) => point.cost);
+    const quantity = project(days, (point) => point.quantity);
+    if (!cost || !quantity) return null;
+
+    const byGroup =
+      split === "none"
+        ? null
+        : aggregate(rows, { groupBy: split, topN: TOP_GROUPS });
+    const groups = byGroup
+      ? byGroup.groups.map(({ key, name }) => ({
+          key,
+          name,
+          forecast: project(
+            byGroup.series,
+            (point) => point.groups[key][breakdown],
+          )!,
+        }))
+      : [];
+
+    const selected = breakdown === "cost" ? cost : quantity;
+    const chartData = labelChartPoints(
+      selected.points,
+      "day",
+      billingCycleStartDay,
+    ).map((point) => ({
+      ...point,
+      band:
+        point.lower !== undefined ? [point.lower, point.upper] : undefined,
+    }));
+
+    return { cost, quantity, groups, chartData };
+  }, [
+    isOpen,
+    rows,
+    model,
+    horizon,
+    split,
+    breakdown,
+    billingCycleStartDay,
+  ]);
+
+  const unitType = getUnitType(rows);
+  const formatQuantity = (value: number) =>
+    formatQuantityForUnit(value, unitType, serviceType, storageUnit);
+  const formatValue = breakdown === "cost" ? formatCurrency : formatQuantity;
+  const formatRange = (
+    lower: number,
+    upper: number,
+    format: (value: number) => string,
+  ) => `${format(lower)} – ${format(upper)}`;
+  const periodName = horizon === "month" ? "Month" : "Quarter";
+
+  return (
+    <div className="bg-gray-800/30 rounded-lg p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h3 className="flex items-center text-lg font-semibold">
+          <TrendingUp className="w-5 h-5 text-gray-400 mr-2" />
+          Forecast
+        </h3>
+        <div className="flex flex-wrap items-center gap-4">
+          {isOpen && (
+            <>
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                Model
+                <select
+                  value={model}
+                  onChange={(e) => setModel(e.target.value as ForecastModel)}
+                  className={selectClassName}
+                >
+                  {FORECAST_MODELS.map(({ id, label }) => (
+                    <option key={id} value={id}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                Project to
+                <select
+                  value={horizon}
+                  onChange={(e) =>
+                    setHorizon(e.target.value as ForecastHorizon)
+                  }
+                  className={selectClassName}
+                >
+                  {FORECAST_HORIZONS.map(({ id, label }) => (
+                    <option key={id} value={id}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-400">
+                Split by
+                <select
+                  value={split}
+                  onChange={(e) => setSplit(e.target.value as ForecastSplit)}
+                  className={selectClassName}
+                >
+                  {SPLITS.map(({ id, label }) => (
+                    <option key={id} value={id}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+          <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+          >
+            {isOpen ? "Hide forecast" : "Show forecast"}
+          </button>
+        </div>
+      </div>
+
+      {forecast && (
+        <div className="mt-6 space-y-6">
+          {/* Projected Totals */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <h3 className="text-sm text-gray-400 mb-1">
+                Projected {periodName}-End Cost
+              </h3>
+              <p className="text-2xl font-bold text-green-400">
+                {formatCurrency(forecast.cost.projected)}
+              </p>
+              <span className="text-xs text-gray-500">
+                {CONFIDENCE_LEVEL}% range{" "}
+                {formatRange(
+                  forecast.cost.lower,
+                  forecast.cost.upper,
+                  formatCurrency,
+                )}
+              </span>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <h3 className="text-sm text-gray-400 mb-1">
+                Projected {periodName}-End Usage
+              </h3>
+              <p className="text-2xl font-bold text-blue-400">
+                {formatQuantity(forecast.quantity.projected)}
+              </p>
+              <span className="text-xs text-gray-500">
+                {CONFIDENCE_LEVEL}% range{" "}
+                {formatRange(
+                  forecast.quantity.lower,
+                  forecast.quantity.upper,
+                  formatQuantity,
+                )}
+              </span>
+            </div>
+            <div className="bg-gray-800/50 rounded-lg p-4">
+              <h3 className="text-sm text-gray-400 mb-1">
+                {periodName} to Date ({forecast.cost.period.start} to{" "}
+                {forecast.cost.lastDate})
+              </h3>
+              <p className="text-2xl font-bold text-purple-400">
+                {formatCurrency(forecast.cost.actual)}
+              </p>
+              <span className="text-xs text-gray-500">
+                {formatQuantity(forecast.quantity.actual)}, period ends{" "}
+                {forecast.cost.period.end}
+              </span>
+            </div>
+          </div>
+
+          {/* Cumulative Actual and Projection */}
+          <div>
+            <h3 className="text-lg font-semibold mb-4">
+              Cumulative {breakdown === "cost" ? "Cost" : "Usage"} This{" "}
+              {periodName}
+            </h3>
+            <ResponsiveContainer width="100%" height={300}>
+              <ComposedChart data={forecast.chartData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} />
+                <YAxis
+                  stroke="#9ca3af"
+                  fontSize={12}
+                  tickFormatter={formatValue}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: "#1f2937",
+                    border: "1px solid #374151",
+                    borderRadius: "8px",
+                  }}
+                  formatter={(value: number | number[], name: string) => [
+                    Array.isArray(value)
+                      ? formatRange(value[0], value[1], formatValue)
+                      : formatValue(value),
+                    name,
+                  ]}
+                  labelStyle={{ color: "#d1d5db" }}
+                  labelFormatter={formatPeriodLabel}
+                />
+                <Legend />
+                <Area
+                  type="monotone"
+                  dataKey="band"
+                  name={`${CONFIDENCE_LEVEL}% range`}
+                  stroke="none"
+                  fill="#3b82f6"
+                  fillOpacity={0.15}
+                />
+                <Area
+                  type="monotone"
+                  dataKey="actual"
+                  name="Actual"
+                  stroke="#22c55e"
+                  fill="#22c55e"
+                  fillOpacity={0.3}
+                  strokeWidth={2}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="projected"
+                  name="Projected"
+                  stroke="#3b82f6"
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={false}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          {/* Projection per Organization or Cost Center */}
+          {forecast.groups.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-gray-700">
+                    <th className="text-left py-3 px-4 text-gray-300">
+                      {SPLITS.find(({ id }) => id === split)?.label}
+                    </th>
+                    <th className="text-right py-3 px-4 text-gray-300">
+                      So Far
+                    </th>
+                    <th className="text-right py-3 px-4 text-gray-300">
+                      Projected
+                    </th>
+                    <th className="text-right py-3 px-4 text-gray-300">
+                      {CONFIDENCE_LEVEL}% Range
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {forecast.groups.map(({ key, name, forecast: group }) => (
+                    <tr
+                      key={key}
+                      className="border-b border-gray-800 hover:bg-gray-800/50"
+                    >
+                      <td
+                        className="py-3 px-4 text-white truncate"
+                        title={name}
+                      >
+                        {name}
+                      </td>
+                      <td className="text-right py-3 px-4 text-gray-300">
+                        {formatValue(group.actual)}
+                      </td>
+                      <td className="text-right py-3 px-4 text-white font-medium">
+                        {formatValue(group.projected)}
+                      </td>
+                      <td className="text-right py-3 px-4 text-gray-300">
+                        {formatRange(group.lower, group.upper, formatValue)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import { ServiceData } from "@/types/billing";
+import { formatCurrency } from "@/lib/chartFormat";
+
+interface OtherProductsBreakdownProps {
+  data: ServiceData[];
+}
+
+/**
+ * Lists the products and SKUs that fell through categorization, so totals
+ * can be reconciled against the invoice.
+ */
+export function OtherProductsBreakdown({ data }: OtherProductsBreakdownProps) {
+  if (data.length === 0) return null;
+
+  const groups = Object.values(
+    data.reduce(
+      (acc, item) => {
+        const product = item.product || "Unknown";
+        const key = `${product}\u0000${item.sku}`;
+        if (!acc[key]) {
+          acc[key] = {
+            product,
+            sku: item.sku,
+            unitType: item.unitType || "",
+            rows: 0,
+            quantity: 0,
+            cost: 0,
+          };
+        }
+        acc[key].rows += 1;
+        acc[key].quantity += item.quantity;
+        acc[key].cost += item.cost;
+        return acc;
+      },
+      {} as Record<
+        string,
+        {
+          product: string;
+          sku: string;
+          unitType: string;
+          rows: number;
+          quantity: number;
+          cost: number;
+        }
+      >,
+    ),
+  ).sort((a, b) => b.cost - a.cost || b.rows - a.rows);
+
+  const products = new Set(groups.map((g) => g.product)).size;
+
+  return (
+    <div className="bg-gray-800/30 rounded-lg p-6 mb-6">
+      <h3 className="text-lg font-semibold mb-1">Uncategorized Products</h3>
+      <p className="text-sm text-gray-400 mb-4">
+        {groups.length} SKU{groups.length === 1 ? "" : "s"} across {products}{" "}
+        product{products === 1 ? "" : "s"} did not match any service category
+      </p>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-700">
+              <th className="text-left py-3 px-4 text-gray-300">Product</th>
+              <th className="text-left py-3 px-4 text-gray-300">SKU</th>
+              <th className="text-right py-3 px-4 text-gray-300">Rows</th>
+              <th className="text-right py-3 px-4 text-gray-300">Usage</th>
+              <th className="text-right py-3 px-4 text-gray-300">Cost</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map((group) => (
+              <tr
+                key={`${group.product}-${group.sku}`}
+                className="border-b border-gray-800 hover:bg-gray-800/50"
+              >
+                <td className="py-3 px-4 text-white">{group.product}</td>
+                <td className="py-3 px-4 text-gray-300">{group.sku}</td>
+                <td className="text-right py-3 px-4 text-gray-300">
+                  {group.rows.toLocaleString()}
+                </td>
+                <td className="text-right py-3 px-4 text-gray-300">
+                  {group.quantity.toLocaleString(undefined, {
+                    maximumFractionDigits: 2,
+                  })}{" "}
+                  {group.unitType}
+                </td>
+                <td className="text-right py-3 px-4 text-white font-medium">
+                  {formatCurrency(group.cost)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
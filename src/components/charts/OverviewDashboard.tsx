@@ -0,0 +1,330 @@
+"use client";
+
+import { useMemo } from "react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+import { DataProcessor, PeriodChange } from "@/lib/dataProcessor";
+import {
+  SERVICE_REGISTRY,
+  ServiceId,
+  getService,
+} from "@/lib/serviceRegistry";
+import { formatCurrency } from "@/lib/chartFormat";
+import {
+  GroupTotals,
+  UNKNOWN_KEY,
+  aggregate,
+  getGroupKey,
+  toChartPoints,
+} from "@/lib/aggregation";
+import { DatasetRows } from "@/lib/columnarDataset";
+import { DEFAULT_BILLING_CYCLE_START_DAY } from "@/lib/billingCycle";
+import {
+  DEFAULT_GRANULARITY,
+  Granularity,
+  formatPeriodLabel,
+  getBucketAdjective,
+  labelChartPoints,
+  resolveGranularity,
+} from "@/lib/granularity";
+
+interface OverviewDashboardProps {
+  rows: DatasetRows; // Rows of every service after the shared filters
+  serviceRows: Record<string, DatasetRows>; // The same rows per service
+  isFiltered?: boolean; // Whether the rows are narrowed by filters
+  onNavigate: (serviceId: ServiceId) => void;
+  billingCycleStartDay?: number;
+  granularity?: Granularity;
+}
+
+const TOP_CONTRIBUTORS = 5;
+
+interface TopContributor extends GroupTotals {
+  topService: ServiceId; // Service with the largest share of the cost
+}
+
+function ChangeBadge({ change }: { change: PeriodChange }) {
+  if (change.change === null) {
+    return <span className="text-xs text-gray-500">No prior spend</span>;
+  }
+  // Rising spend is the thing to look into
+  const color = change.change > 0 ? "text-red-400" : "text-green-400";
+  return (
+    <span className={`text-xs ${color}`}>
+      {change.change > 0 ? "+" : ""}
+      {change.change.toFixed(1)}% vs previous period
+    </span>
+  );
+}
+
+/**
+ * Cross-service summary of an upload: KPI cards, a stacked spend trend
+ * and the largest spenders. Each element opens the relevant service tab.
+ */
+export function OverviewDashboard({
+  rows,
+  serviceRows,
+  isFiltered = false,
+  onNavigate,
+  billingCycleStartDay = DEFAULT_BILLING_CYCLE_START_DAY,
+  granularity = DEFAULT_GRANULARITY,
+}: OverviewDashboardProps) {
+  const overview = useMemo(() => {
+    const services = SERVICE_REGISTRY.filter(
+      (service) => serviceRows[service.id]?.selection.length > 0,
+    );
+
+    const daily = aggregate(rows, { groupBy: "service" });
+    const bucket = resolveGranularity(
+      granularity,
+      daily.series[0]?.date ?? "",
+      daily.series[daily.series.length - 1]?.date ?? "",
+      billingCycleStartDay,
+    );
+    const byService = aggregate(rows, {
+      groupBy: "service",
+      bucket,
+      billingCycleStartDay,
+    });
+    const serviceTotals = new Map(
+      byService.groups.map((group) => [group.key, group.cost]),
+    );
+
+    // Largest spenders across every service, along with the service each
+    // spends most on
+    const getTopContributors = (
+      field: "repository" | "organization" | "costCenter",
+    ): TopContributor[] => {
+      const serviceCosts = services.map((service) => ({
+        service: service.id,
+        costs: new Map(
+          aggregate(serviceRows[service.id], { groupBy: field }).groups.map(
+            (group) => [group.key, group.cost],
+          ),
+        ),
+      }));
+      return aggregate(rows, { groupBy: field })
+        .groups.filter((group) => group.key !== UNKNOWN_KEY)
+        .slice(0, TOP_CONTRIBUTORS)
+        .map((group) => ({
+          ...group,
+          topService: serviceCosts.reduce((a, b) =>
+            (b.costs.get(group.key) ?? 0) > (a.costs.get(group.key) ?? 0)
+              ? b
+              : a,
+          ).service,
+        }));
+    };
+
+    return {
+      services,
+      bucket,
+      trend: labelChartPoints(
+        toChartPoints(byService, "cost"),
+        bucket,
+        billingCycleStartDay,
+      ),
+      comparison: DataProcessor.compareLatestPeriods(
+        daily.series,
+        billingCycleStartDay,
+      ),
+      totals: Object.fromEntries(
+        services.map((service) => [
+          service.id,
+          serviceTotals.get(getGroupKey(service.id)) ?? 0,
+        ]),
+      ),
+      topLists: [
+        {
+          title: "Top Repositories",
+          items: getTopContributors("repository"),
+        },
+        {
+          title: "Top Organizations",
+          items: getTopContributors("organization"),
+        },
+        {
+          title: "Top Cost Centers",
+          items: getTopContributors("costCenter"),
+        },
+      ].filter((list) => list.items.length > 0),
+    };
+  }, [rows, serviceRows, billingCycleStartDay, granularity]);
+
+  const { services, bucket, trend, comparison, totals, topLists } = overview;
+
+  if (services.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64 text-gray-500">
+        <div className="text-center">
+          <p className="text-lg font-medium">No data available</p>
+          <p className="text-sm">
+            {isFiltered
+              ? "No usage matches the current filters"
+              : "The upload did not contain any billed usage"}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const totalSpend = Object.values(totals).reduce((a, b) => a + b, 0);
+
+  return (
+    <div className="space-y-6">
+      {/* KPI Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <h3 className="text-sm text-gray-400 mb-1">Total Net Spend</h3>
+          <p className="text-2xl font-bold text-green-400">
+            {formatCurrency(totalSpend)}
+          </p>
+          <span className="text-xs text-gray-500">
+            {services.length} services
+          </span>
+        </div>
+        {comparison && (
+          <div className="bg-gray-800/50 rounded-lg p-4">
+            <h3 className="text-sm text-gray-400 mb-1">
+              Month to Date ({comparison.current.start} to{" "}
+              {comparison.current.end})
+            </h3>
+            <p className="text-2xl font-bold text-blue-400">
+              {formatCurrency(comparison.total.current)}
+            </p>
+            <ChangeBadge change={comparison.total} />
+          </div>
+        )}
+        {services.map((service) => (
+          <button
+            key={service.id}
+            onClick={() => onNavigate(service.id)}
+            className="bg-gray-800/50 rounded-lg p-4 text-left hover:bg-gray-700/50 transition-colors"
+          >
+            <h3 className="flex items-center text-sm text-gray-400 mb-1">
+              <span
+                className="w-2 h-2 rounded-full mr-2"
+                style={{ backgroundColor: service.color }}
+              />
+              {service.label}
+            </h3>
+            <p className="text-2xl font-bold text-white">
+              {formatCurrency(totals[service.id])}
+            </p>
+            {comparison && (
+              <ChangeBadge
+                change={comparison.groups[getGroupKey(service.id)]}
+              />
+            )}
+          </button>
+        ))}
+      </div>
+
+      {/* Stacked Trend by Service */}
+      <div className="bg-gray-800/30 rounded-lg p-6">
+        <h3 className="text-lg font-semibold mb-4">
+          {getBucketAdjective(bucket)} Spend by Service
+        </h3>
+        <ResponsiveContainer width="100%" height={320}>
+          <BarChart data={trend}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} />
+            <YAxis
+              stroke="#9ca3af"
+              fontSize={12}
+              tickFormatter={formatCurrency}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "#1f2937",
+                border: "1px solid #374151",
+                borderRadius: "8px",
+              }}
+              formatter={(value: number, name: string) => [
+                formatCurrency(value),
+                name,
+              ]}
+              labelStyle={{ color: "#d1d5db" }}
+              labelFormatter={formatPeriodLabel}
+            />
+            <Legend />
+            {services.map((service) => (
+              <Bar
+                key={service.id}
+                dataKey={getGroupKey(service.id)}
+                name={service.label}
+                stackId="services"
+                fill={service.color}
+                cursor="pointer"
+                onClick={() => onNavigate(service.id)}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Top Spenders Across Services */}
+      {topLists.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {topLists.map((list) => (
+            <TopList
+              key={list.title}
+              title={list.title}
+              items={list.items}
+              onNavigate={onNavigate}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function TopList({
+  title,
+  items,
+  onNavigate,
+}: {
+  title: string;
+  items: TopContributor[];
+  onNavigate: (serviceId: ServiceId) => void;
+}) {
+  return (
+    <div className="bg-gray-800/30 rounded-lg p-6">
+      <h3 className="text-lg font-semibold mb-4">{title}</h3>
+      <ul className="space-y-1">
+        {items.map((item) => {
+          const service = getService(item.topService);
+          return (
+            <li key={item.key}>
+              <button
+                onClick={() => onNavigate(item.topService)}
+                title={`Open ${service?.label ?? item.topService}`}
+                className="w-full flex items-center justify-between px-2 py-2 rounded-md text-sm hover:bg-gray-700/50 transition-colors"
+              >
+                <span className="flex items-center min-w-0">
+                  <span
+                    className="w-2 h-2 rounded-full mr-2 flex-shrink-0"
+                    style={{ backgroundColor: service?.color }}
+                  />
+                  <span className="text-gray-300 truncate">{item.name}</span>
+                </span>
+                <span className="ml-3 text-white font-medium">
+                  {formatCurrency(item.cost)}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
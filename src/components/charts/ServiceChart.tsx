@@ -1,5 +1,6 @@
 "use client";
 
+import { useState } from "react";
 import {
   AreaChart,
   Area,
@@ -14,23 +15,42 @@ import {
   BarChart,
   Bar,
 } from "recharts";
-import { ServiceData } from "@/types/billing";
+import { aggregate, toChartPoints } from "@/lib/aggregation";
+import { DatasetRows } from "@/lib/columnarDataset";
+import { TimeBucket } from "@/lib/dataProcessor";
+import {
+  DEFAULT_GRANULARITY,
+  Granularity,
+  fitChartPoints,
+  formatPeriodLabel,
+  getBucketAdjective,
+  labelChartPoints,
+  resolveGranularity,
+} from "@/lib/granularity";
+import { formatCurrency } from "@/lib/chartFormat";
+import { getService, ServiceId } from "@/lib/serviceRegistry";
+import { formatQuantityForUnit, getUnitType } from "@/lib/units";
 
 interface ServiceChartProps {
-  data: ServiceData[];
+  rows: DatasetRows;
   title: string;
-  serviceType:
-    | "actionsMinutes"
-    | "actionsStorage"
-    | "packages"
-    | "copilot"
-    | "codespaces";
+  serviceType: ServiceId;
   useSkuAnalysis?: boolean; // Override to use SKU-based analysis instead of repository-based
   breakdown?: "cost" | "quantity"; // Whether to breakdown by cost or quantity
   hasMultipleOrganizations?: boolean; // Whether to show organization breakdown charts
   storageUnit?: "gb-hours" | "gb-months"; // Unit for displaying storage data
+  granularity?: Granularity; // How finely to split time
+  billingCycleStartDay?: number;
 }
 
+// The sub-charts draw time in the bucket resolved from the granularity,
+// with as many points as fit in the width of their trend chart
+type BucketedChartProps = ServiceChartProps & {
+  bucket: TimeBucket;
+  chartWidth?: number;
+  onChartResize: (width: number) => void;
+};
+
 const COLORS = [
   "#22c55e",
   "#3b82f6",
@@ -45,42 +65,21 @@ const COLORS = [
   "#64748b",
 ];
 
-// Conversion constant: 1 month ≈ 730 hours (average)
-const HOURS_PER_MONTH = 730;
-
-// Convert GB-hours to GB-months
-function convertToGBMonths(gbHours: number): number {
-  return gbHours / HOURS_PER_MONTH;
-}
-
-/**
- * Format a date string for chart display, including the year
- * when the dataset spans multiple calendar years.
- */
-function formatDateForChart(isoDate: string, includeYear: boolean): string {
-  const d = new Date(isoDate);
-  const options: Intl.DateTimeFormatOptions = includeYear
-    ? { month: "short", day: "numeric", year: "2-digit" }
-    : { month: "short", day: "numeric" };
-  return d.toLocaleDateString("en-US", options);
-}
-
-/** Check whether an array of ISO date strings spans more than one calendar year. */
-function spansMultipleYears(dates: string[]): boolean {
-  if (dates.length === 0) return false;
-  const years = new Set(dates.map((d) => new Date(d).getFullYear()));
-  return years.size > 1;
-}
-
 export function ServiceChart({
-  data,
+  rows,
   title,
   serviceType,
   useSkuAnalysis = false,
   breakdown = "quantity",
   storageUnit = "gb-hours",
+  granularity = DEFAULT_GRANULARITY,
+  billingCycleStartDay,
 }: ServiceChartProps) {
-  if (!data || data.length === 0) {
+  const [chartWidth, setChartWidth] = useState<number>();
+  const handleChartResize = (width: number) =>
+    setChartWidth(Math.round(width));
+
+  if (rows.selection.length === 0) {
     return (
       <div className="flex items-center justify-center h-64 text-gray-500">
         <div className="text-center">
@@ -94,57 +93,78 @@ export function ServiceChart({
   }
 
   // Check if data is filtered to a specific repository
-  const repositories = Array.from(
-    new Set(data.map((item) => item.repository).filter(Boolean)),
-  );
-  const isRepositorySpecific = repositories.length === 1;
+  const isRepositorySpecific =
+    aggregate(rows, { groupBy: "repository" }).groupCount === 1;
 
   // Check if data includes multiple organizations (for organization stacked charts)
-  const organizations = Array.from(
-    new Set(data.map((item) => item.organization).filter(Boolean)),
+  const organizationCount = aggregate(rows, {
+    groupBy: "organization",
+  }).groupCount;
+  const hasMultipleOrganizations = organizationCount > 1;
+
+  // Split time as chosen, or by the length of the range shown
+  const days = aggregate(rows).series;
+  const bucket = resolveGranularity(
+    granularity,
+    days[0].date,
+    days[days.length - 1].date,
+    billingCycleStartDay,
+    chartWidth,
   );
-  const hasMultipleOrganizations = organizations.length > 1;
 
   // Repository-specific view: show only cost OR quantity based on breakdown
   if (isRepositorySpecific) {
     return (
       <RepositorySpecificChart
-        data={data}
+        rows={rows}
         title={title}
         serviceType={serviceType}
+        bucket={bucket}
+        chartWidth={chartWidth}
+        onChartResize={handleChartResize}
+        billingCycleStartDay={billingCycleStartDay}
         breakdown={breakdown}
         storageUnit={storageUnit}
       />
     );
   }
 
-  // Special case for Actions Minutes with specific organization selected
-  if (serviceType === "actionsMinutes" && !useSkuAnalysis) {
-    const isSingleOrganization = organizations.length === 1;
+  const service = getService(serviceType);
+
+  // Detailed view for services like Actions Minutes when one organization is selected
+  if (service?.detailedSingleOrgView && !useSkuAnalysis) {
+    const isSingleOrganization = organizationCount === 1;
 
     if (isSingleOrganization) {
       return (
         <ActionsMinutesDetailedChart
-          data={data}
+          rows={rows}
           title={title}
           serviceType={serviceType}
+          bucket={bucket}
+          chartWidth={chartWidth}
+          onChartResize={handleChartResize}
+          billingCycleStartDay={billingCycleStartDay}
           breakdown={breakdown}
         />
       );
     }
   }
 
-  // Use repository-based analysis for Actions services (unless override), SKU-based for others
+  // Use the service's chart strategy (unless overridden to SKU-based analysis)
   const shouldUseRepositoryAnalysis =
-    !useSkuAnalysis &&
-    (serviceType === "actionsMinutes" || serviceType === "actionsStorage");
+    !useSkuAnalysis && service?.chartStrategy === "repository";
 
   if (shouldUseRepositoryAnalysis) {
     return (
       <RepositoryBasedChart
-        data={data}
+        rows={rows}
         title={title}
         serviceType={serviceType}
+        bucket={bucket}
+        chartWidth={chartWidth}
+        onChartResize={handleChartResize}
+        billingCycleStartDay={billingCycleStartDay}
         breakdown={breakdown}
         hasMultipleOrganizations={hasMultipleOrganizations}
         storageUnit={storageUnit}
@@ -153,9 +173,13 @@ export function ServiceChart({
   } else {
     return (
       <SKUBasedChart
-        data={data}
+        rows={rows}
         title={title}
         serviceType={serviceType}
+        bucket={bucket}
+        chartWidth={chartWidth}
+        onChartResize={handleChartResize}
+        billingCycleStartDay={billingCycleStartDay}
         breakdown={breakdown}
         storageUnit={storageUnit}
       />
@@ -164,82 +188,38 @@ export function ServiceChart({
 }
 
 function RepositorySpecificChart({
-  data,
+  rows,
   title,
   serviceType,
   breakdown = "quantity",
   storageUnit = "gb-hours",
-}: ServiceChartProps) {
-  const repository = data[0]?.repository || "Unknown Repository";
-
-  // Aggregate data by date for the single repository
-  const dailyData = data.reduce(
-    (acc, item) => {
-      const date = item.date;
-      if (!acc[date]) {
-        acc[date] = { date, cost: 0, quantity: 0, skus: new Set() };
-      }
-      acc[date].cost += item.cost;
-      acc[date].quantity += item.quantity;
-      acc[date].skus.add(item.sku);
-      return acc;
-    },
-    {} as Record<
-      string,
-      { date: string; cost: number; quantity: number; skus: Set<string> }
-    >,
+  bucket,
+  chartWidth,
+  onChartResize,
+  billingCycleStartDay,
+}: BucketedChartProps) {
+  const repository =
+    aggregate(rows, { groupBy: "repository" }).groups[0]?.name ||
+    "Unknown Repository";
+
+  const bySku = aggregate(rows, {
+    groupBy: "sku",
+    rankBy: breakdown,
+    bucket,
+    billingCycleStartDay,
+  });
+  const chartData = labelChartPoints(
+    fitChartPoints(bySku.series, chartWidth, (point) => point[breakdown]),
+    bucket,
+    billingCycleStartDay,
   );
+  const skuBreakdown = bySku.groups;
+  const { cost: totalCost, quantity: totalQuantity } = bySku.totals;
+  const uniqueSkus = bySku.groupCount;
 
-  const rawDates = Object.keys(dailyData);
-  const multiYear = spansMultipleYears(rawDates);
-
-  const chartData = Object.values(dailyData)
-    .sort((a, b) => a.date.localeCompare(b.date))
-    .map((item) => ({
-      date: formatDateForChart(item.date, multiYear),
-      cost: item.cost,
-      quantity: item.quantity,
-      skuCount: item.skus.size,
-    }));
-
-  // SKU breakdown
-  const skuData = data.reduce(
-    (acc, item) => {
-      if (!acc[item.sku]) {
-        acc[item.sku] = { sku: item.sku, cost: 0, quantity: 0 };
-      }
-      acc[item.sku].cost += item.cost;
-      acc[item.sku].quantity += item.quantity;
-      return acc;
-    },
-    {} as Record<string, { sku: string; cost: number; quantity: number }>,
-  );
-
-  const skuBreakdown = Object.values(skuData).sort((a, b) =>
-    breakdown === "cost" ? b.cost - a.cost : b.quantity - a.quantity,
-  );
-
-  // Calculate totals
-  const totalCost = data.reduce((sum, item) => sum + item.cost, 0);
-  const totalQuantity = data.reduce((sum, item) => sum + item.quantity, 0);
-  const uniqueSkus = new Set(data.map((item) => item.sku)).size;
-
-  const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
-  const formatQuantity = (value: number) => {
-    if (serviceType === "actionsMinutes") {
-      return `${value.toLocaleString()} min`;
-    } else if (serviceType === "actionsStorage" || serviceType === "packages") {
-      if (storageUnit === "gb-months") {
-        const gbMonths = convertToGBMonths(value);
-        return `${gbMonths.toLocaleString(undefined, { maximumFractionDigits: 2 })} GB·mo`;
-      }
-      return `${value.toLocaleString()} GB·h`;
-    } else if (serviceType === "copilot") {
-      return `${value.toFixed(2)} users`;
-    } else {
-      return value.toLocaleString();
-    }
-  };
+  const unitType = getUnitType(rows);
+  const formatQuantity = (value: number) =>
+    formatQuantityForUnit(value, unitType, serviceType, storageUnit);
 
   const getFormatter = () =>
     breakdown === "cost" ? formatCurrency : formatQuantity;
@@ -280,12 +260,16 @@ function RepositorySpecificChart({
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Daily Trend */}
+        {/* Trend */}
         <div className="bg-gray-800/30 rounded-lg p-6">
           <h3 className="text-lg font-semibold mb-4">
-            Daily {getBreakdownLabel()} Trend
+            {getBucketAdjective(bucket)} {getBreakdownLabel()} Trend
           </h3>
-          <ResponsiveContainer width="100%" height={300}>
+          <ResponsiveContainer
+            width="100%"
+            height={300}
+            onResize={onChartResize}
+          >
             <AreaChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
               <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} />
@@ -305,6 +289,7 @@ function RepositorySpecificChart({
                   getBreakdownLabel(),
                 ]}
                 labelStyle={{ color: "#d1d5db" }}
+                labelFormatter={formatPeriodLabel}
               />
               <Area
                 type="monotone"
@@ -356,16 +341,16 @@ function RepositorySpecificChart({
           </ResponsiveContainer>
           <div className="mt-4 space-y-2 max-h-32 overflow-y-auto">
             {skuBreakdown.map((entry, index) => (
-              <div key={entry.sku} className="flex items-center text-sm">
+              <div key={entry.key} className="flex items-center text-sm">
                 <div
                   className="w-3 h-3 rounded mr-2"
                   style={{ backgroundColor: COLORS[index % COLORS.length] }}
                 />
                 <span
                   className="text-gray-300 flex-1 truncate"
-                  title={entry.sku}
+                  title={entry.name}
                 >
-                  {entry.sku}
+                  {entry.name}
                 </span>
                 <span className="text-white font-medium">
                   {getFormatter()(entry[breakdown])}
@@ -380,140 +365,51 @@ function RepositorySpecificChart({
 }
 
 function ActionsMinutesDetailedChart({
-  data,
+  rows,
   title,
   serviceType,
   breakdown = "quantity",
-}: ServiceChartProps) {
-  // Get top 10 repositories by total cost
-  const repoTotals = data.reduce(
-    (acc, item) => {
-      const repo = item.repository || "Unknown";
-      if (!acc[repo]) {
-        acc[repo] = { cost: 0, quantity: 0 };
-      }
-      acc[repo].cost += item.cost;
-      acc[repo].quantity += item.quantity;
-      return acc;
-    },
-    {} as Record<string, { cost: number; quantity: number }>,
+  bucket,
+  chartWidth,
+  onChartResize,
+  billingCycleStartDay,
+}: BucketedChartProps) {
+  // Top 10 repositories and top 6 SKUs by cost, the rest as "Others"
+  const byRepo = aggregate(rows, {
+    groupBy: "repository",
+    topN: 10,
+    bucket,
+    billingCycleStartDay,
+  });
+  const bySku = aggregate(rows, { groupBy: "sku", topN: 6 });
+  const costChartData = labelChartPoints(
+    fitChartPoints(
+      toChartPoints(byRepo, "cost"),
+      chartWidth,
+      (point) => point.total,
+    ),
+    bucket,
+    billingCycleStartDay,
   );
-
-  const topRepos = Object.entries(repoTotals)
-    .sort(([, a], [, b]) => b.cost - a.cost)
-    .slice(0, 10)
-    .map(([repo]) => repo);
-
-  // SKU breakdown
-  const skuTotals = data.reduce(
-    (acc, item) => {
-      if (!acc[item.sku]) {
-        acc[item.sku] = { cost: 0, quantity: 0 };
-      }
-      acc[item.sku].cost += item.cost;
-      acc[item.sku].quantity += item.quantity;
-      return acc;
-    },
-    {} as Record<string, { cost: number; quantity: number }>,
-  );
-
-  const topSkus = Object.entries(skuTotals)
-    .sort(([, a], [, b]) => b.cost - a.cost)
-    .slice(0, 6)
-    .map(([sku]) => sku);
-
-  // Aggregate data by date with repository breakdown
-  const dailyData = data.reduce(
-    (acc, item) => {
-      const date = item.date;
-      const repo = topRepos.includes(item.repository || "Unknown")
-        ? item.repository || "Unknown"
-        : "Others";
-
-      if (!acc[date]) {
-        acc[date] = { date, total: 0, totalQuantity: 0 };
-        // Initialize all top repos and Others to 0 for both cost and quantity
-        topRepos.forEach((r) => {
-          acc[date][r] = 0;
-          acc[date][`${r}_quantity`] = 0;
-        });
-        acc[date]["Others"] = 0;
-        acc[date]["Others_quantity"] = 0;
-      }
-
-      acc[date][repo] = (acc[date][repo] || 0) + item.cost;
-      acc[date][`${repo}_quantity`] =
-        (acc[date][`${repo}_quantity`] || 0) + item.quantity;
-      acc[date].total += item.cost;
-      acc[date].totalQuantity += item.quantity;
-      return acc;
-    },
-    {} as Record<string, any>,
+  const minutesChartData = labelChartPoints(
+    fitChartPoints(
+      toChartPoints(byRepo, "quantity"),
+      chartWidth,
+      (point) => point.total,
+    ),
+    bucket,
+    billingCycleStartDay,
   );
+  const repoBreakdown = byRepo.groups;
+  const skuBreakdown = bySku.groups;
 
-  const rawDailyDates1 = Object.keys(dailyData);
-  const multiYear1 = spansMultipleYears(rawDailyDates1);
+  const { cost: totalCost, quantity: totalQuantity } = byRepo.totals;
+  const uniqueRepos = byRepo.groupCount;
+  const uniqueSkus = bySku.groupCount;
 
-  const stackedChartData = Object.values(dailyData)
-    .sort((a: any, b: any) =>
-      (a.date as string).localeCompare(b.date as string),
-    )
-    .map((item) => ({
-      ...item,
-      date: formatDateForChart(item.date, multiYear1),
-    }));
-  // Repository breakdown for pie chart (top 10 + others)
-  const repoBreakdown = [
-    ...topRepos.map((repo) => ({
-      name: repo,
-      cost: repoTotals[repo].cost,
-      quantity: repoTotals[repo].quantity,
-    })),
-  ];
-
-  // Add "Others" if there are more than 10 repos
-  const otherRepos = Object.keys(repoTotals).filter(
-    (repo) => !topRepos.includes(repo),
-  );
-  if (otherRepos.length > 0) {
-    const othersCost = otherRepos.reduce(
-      (sum, repo) => sum + repoTotals[repo].cost,
-      0,
-    );
-    const othersQuantity = otherRepos.reduce(
-      (sum, repo) => sum + repoTotals[repo].quantity,
-      0,
-    );
-    repoBreakdown.push({
-      name: "Others",
-      cost: othersCost,
-      quantity: othersQuantity,
-    });
-  }
-
-  // SKU breakdown for pie chart
-  const skuBreakdown = topSkus.map((sku) => ({
-    name: sku,
-    cost: skuTotals[sku].cost,
-    quantity: skuTotals[sku].quantity,
-  }));
-
-  const totalCost = data.reduce((sum, item) => sum + item.cost, 0);
-  const totalQuantity = data.reduce((sum, item) => sum + item.quantity, 0);
-  const uniqueRepos = new Set(
-    data.map((item) => item.repository).filter(Boolean),
-  ).size;
-  const uniqueSkus = new Set(data.map((item) => item.sku)).size;
-
-  const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
-  const formatQuantity = (value: number) => {
-    return `${value.toLocaleString()} min`;
-  };
-
-  const reposToShow =
-    topRepos.length > 0
-      ? [...topRepos, ...(otherRepos.length > 0 ? ["Others"] : [])]
-      : [];
+  const unitType = getUnitType(rows);
+  const formatQuantity = (value: number) =>
+    formatQuantityForUnit(value, unitType, serviceType);
 
   return (
     <div className="space-y-6">
@@ -542,13 +438,17 @@ function ActionsMinutesDetailedChart({
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* Daily Cost Trend - Stacked by Repository */}
+        {/* Cost Trend - Stacked by Repository */}
         <div className="lg:col-span-2 bg-gray-800/30 rounded-lg p-6">
           <h3 className="text-lg font-semibold mb-4">
-            Daily Cost by Repository
+            {getBucketAdjective(bucket)} Cost by Repository
           </h3>
-          <ResponsiveContainer width="100%" height={300}>
-            <AreaChart data={stackedChartData}>
+          <ResponsiveContainer
+            width="100%"
+            height={300}
+            onResize={onChartResize}
+          >
+            <AreaChart data={costChartData}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
               <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} />
               <YAxis
@@ -564,12 +464,14 @@ function ActionsMinutesDetailedChart({
                 }}
                 formatter={(value: number) => [formatCurrency(value), "Cost"]}
                 labelStyle={{ color: "#d1d5db" }}
+                labelFormatter={formatPeriodLabel}
               />
-              {reposToShow.map((repo, index) => (
+              {repoBreakdown.map((repo, index) => (
                 <Area
-                  key={repo}
+                  key={repo.key}
                   type="monotone"
-                  dataKey={repo}
+                  dataKey={repo.key}
+                  name={repo.name}
                   stackId="1"
                   stroke={COLORS[index % COLORS.length]}
                   fill={COLORS[index % COLORS.length]}
@@ -613,7 +515,7 @@ function ActionsMinutesDetailedChart({
           </ResponsiveContainer>
           <div className="mt-4 space-y-2 max-h-32 overflow-y-auto">
             {skuBreakdown.map((entry, index) => (
-              <div key={entry.name} className="flex items-center text-sm">
+              <div key={entry.key} className="flex items-center text-sm">
                 <div
                   className="w-3 h-3 rounded mr-2"
                   style={{ backgroundColor: COLORS[index % COLORS.length] }}
@@ -667,7 +569,7 @@ function ActionsMinutesDetailedChart({
           </ResponsiveContainer>
           <div className="mt-4 space-y-2 max-h-32 overflow-y-auto">
             {repoBreakdown.map((entry, index) => (
-              <div key={entry.name} className="flex items-center text-sm">
+              <div key={entry.key} className="flex items-center text-sm">
                 <div
                   className="w-3 h-3 rounded mr-2"
                   style={{ backgroundColor: COLORS[index % COLORS.length] }}
@@ -686,13 +588,13 @@ function ActionsMinutesDetailedChart({
           </div>
         </div>
 
-        {/* Daily Usage Volume - Stacked by Repository */}
+        {/* Usage Volume - Stacked by Repository */}
         <div className="bg-gray-800/30 rounded-lg p-6">
           <h3 className="text-lg font-semibold mb-4">
-            Daily Minutes by Repository
+            {getBucketAdjective(bucket)} Minutes by Repository
           </h3>
           <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={stackedChartData}>
+            <BarChart data={minutesChartData}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
               <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} />
               <YAxis
@@ -711,15 +613,17 @@ function ActionsMinutesDetailedChart({
                   "Minutes",
                 ]}
                 labelStyle={{ color: "#d1d5db" }}
+                labelFormatter={formatPeriodLabel}
               />
-              {reposToShow.map((repo, index) => (
+              {repoBreakdown.map((repo, index) => (
                 <Bar
-                  key={repo}
-                  dataKey={`${repo}_quantity`}
+                  key={repo.key}
+                  dataKey={repo.key}
+                  name={repo.name}
                   stackId="1"
                   fill={COLORS[index % COLORS.length]}
                   radius={
-                    index === reposToShow.length - 1
+                    index === repoBreakdown.length - 1
                       ? [4, 4, 0, 0]
                       : [0, 0, 0, 0]
                   }
@@ -734,202 +638,64 @@ function ActionsMinutesDetailedChart({
 }
 
 function RepositoryBasedChart({
-  data,
+  rows,
   title,
   serviceType,
   breakdown = "quantity",
   hasMultipleOrganizations = false,
   storageUnit = "gb-hours",
-}: ServiceChartProps) {
-  // Get top 10 repositories by the selected breakdown metric
-  const repoTotals = data.reduce(
-    (acc, item) => {
-      const repo = item.repository || "Unknown";
-      if (!acc[repo]) {
-        acc[repo] = { cost: 0, quantity: 0 };
-      }
-      acc[repo].cost += item.cost;
-      acc[repo].quantity += item.quantity;
-      return acc;
-    },
-    {} as Record<string, { cost: number; quantity: number }>,
-  );
-
-  // Get organization totals (for organization chart)
-  const orgTotals = data.reduce(
-    (acc, item) => {
-      const org = item.organization || "Unknown";
-      if (!acc[org]) {
-        acc[org] = { cost: 0, quantity: 0 };
-      }
-      acc[org].cost += item.cost;
-      acc[org].quantity += item.quantity;
-      return acc;
-    },
-    {} as Record<string, { cost: number; quantity: number }>,
-  );
-
-  const topRepos = Object.entries(repoTotals)
-    .sort(([, a], [, b]) =>
-      breakdown === "cost" ? b.cost - a.cost : b.quantity - a.quantity,
-    )
-    .slice(0, 10)
-    .map(([repo]) => repo);
-
-  const topOrgs = Object.entries(orgTotals)
-    .sort(([, a], [, b]) =>
-      breakdown === "cost" ? b.cost - a.cost : b.quantity - a.quantity,
-    )
-    .slice(0, 8)
-    .map(([org]) => org);
-
-  // Aggregate data by date with repository breakdown
-  const dailyData = data.reduce(
-    (acc, item) => {
-      const date = item.date;
-      const repo = topRepos.includes(item.repository || "Unknown")
-        ? item.repository || "Unknown"
-        : "Others";
-
-      if (!acc[date]) {
-        acc[date] = { date, total: 0, totalQuantity: 0 };
-        // Initialize all top repos and Others to 0 for both cost and quantity
-        topRepos.forEach((r) => {
-          acc[date][r] = 0;
-          acc[date][`${r}_quantity`] = 0;
-        });
-        acc[date]["Others"] = 0;
-        acc[date]["Others_quantity"] = 0;
-      }
-
-      acc[date][repo] = (acc[date][repo] || 0) + item.cost;
-      acc[date][`${repo}_quantity`] =
-        (acc[date][`${repo}_quantity`] || 0) + item.quantity;
-      acc[date].total += item.cost;
-      acc[date].totalQuantity += item.quantity;
-      return acc;
-    },
-    {} as Record<string, any>,
+  bucket,
+  chartWidth,
+  onChartResize,
+  billingCycleStartDay,
+}: BucketedChartProps) {
+  // Top 10 repositories and top 8 organizations by the selected breakdown
+  // metric, the rest as "Others"
+  const byRepo = aggregate(rows, {
+    groupBy: "repository",
+    topN: 10,
+    rankBy: breakdown,
+    bucket,
+    billingCycleStartDay,
+  });
+  const byOrg = aggregate(rows, {
+    groupBy: "organization",
+    topN: 8,
+    rankBy: breakdown,
+    bucket,
+    billingCycleStartDay,
+  });
+  const stackedChartData = labelChartPoints(
+    fitChartPoints(
+      toChartPoints(byRepo, breakdown),
+      chartWidth,
+      (point) => point.total,
+    ),
+    bucket,
+    billingCycleStartDay,
   );
-
-  const rawDailyDates2 = Object.keys(dailyData);
-  const multiYear2 = spansMultipleYears(rawDailyDates2);
-
-  const stackedChartData = Object.values(dailyData)
-    .sort((a: any, b: any) =>
-      (a.date as string).localeCompare(b.date as string),
-    )
-    .map((item) => ({
-      ...item,
-      date: formatDateForChart(item.date, multiYear2),
-    }));
-  // Repository breakdown for pie chart (top 10 + others)
-  const repoBreakdown = [
-    ...topRepos.map((repo) => ({
-      name: repo,
-      cost: repoTotals[repo].cost,
-      quantity: repoTotals[repo].quantity,
-    })),
-  ];
-
-  // Add "Others" if there are more than 10 repos
-  const otherRepos = Object.keys(repoTotals).filter(
-    (repo) => !topRepos.includes(repo),
-  );
-  if (otherRepos.length > 0) {
-    const othersCost = otherRepos.reduce(
-      (sum, repo) => sum + repoTotals[repo].cost,
-      0,
-    );
-    const othersQuantity = otherRepos.reduce(
-      (sum, repo) => sum + repoTotals[repo].quantity,
-      0,
-    );
-    repoBreakdown.push({
-      name: "Others",
-      cost: othersCost,
-      quantity: othersQuantity,
-    });
-  }
-
-  // Organization aggregation for stacked chart
-  const otherOrgs = Object.keys(orgTotals).filter(
-    (org) => !topOrgs.includes(org),
+  const orgChartData = labelChartPoints(
+    fitChartPoints(
+      toChartPoints(byOrg, breakdown),
+      chartWidth,
+      (point) => point.total,
+    ),
+    bucket,
+    billingCycleStartDay,
   );
+  const repoBreakdown = byRepo.groups;
+  const orgBreakdown = byOrg.groups;
 
-  const orgsToShow =
-    topOrgs.length > 0
-      ? [...topOrgs, ...(otherOrgs.length > 0 ? ["Others"] : [])]
-      : [];
+  const { cost: totalCost, quantity: totalQuantity } = byRepo.totals;
+  const uniqueRepos = byRepo.groupCount;
 
-  // Create organization stacked chart data
-  const orgStackedData = data.reduce(
-    (acc, item) => {
-      const date = item.date;
-      const org = topOrgs.includes(item.organization || "Unknown")
-        ? item.organization || "Unknown"
-        : "Others";
+  const unitType = getUnitType(rows);
+  const formatQuantity = (value: number) =>
+    formatQuantityForUnit(value, unitType, serviceType, storageUnit);
 
-      if (!acc[date]) {
-        acc[date] = { date };
-        orgsToShow.forEach((o) => {
-          acc[date][o] = 0;
-        });
-      }
-
-      const value = breakdown === "cost" ? item.cost : item.quantity;
-      acc[date][org] = (acc[date][org] || 0) + value;
-      return acc;
-    },
-    {} as Record<string, any>,
-  );
-
-  const rawOrgDates = Object.keys(orgStackedData);
-  const multiYearOrg = spansMultipleYears(rawOrgDates);
-
-  const orgChartData = Object.values(orgStackedData)
-    .sort((a: any, b: any) =>
-      (a.date as string).localeCompare(b.date as string),
-    )
-    .map((item) => ({
-      ...item,
-      date: formatDateForChart(item.date, multiYearOrg),
-    }));
-  const totalCost = data.reduce((sum, item) => sum + item.cost, 0);
-  const totalQuantity = data.reduce((sum, item) => sum + item.quantity, 0);
-  const uniqueRepos = new Set(
-    data.map((item) => item.repository).filter(Boolean),
-  ).size;
-
-  const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
-  const formatQuantity = (value: number) => {
-    if (serviceType === "actionsMinutes") {
-      return `${value.toLocaleString()} min`;
-    } else if (serviceType === "actionsStorage" || serviceType === "packages") {
-      if (storageUnit === "gb-months") {
-        const gbMonths = convertToGBMonths(value);
-        return `${gbMonths.toLocaleString(undefined, { maximumFractionDigits: 2 })} GB·mo`;
-      }
-      return `${value.toLocaleString()} GB·h`;
-    } else if (serviceType === "copilot") {
-      return `${value.toFixed(2)} users`;
-    } else {
-      return value.toLocaleString();
-    }
-  };
-
-  const reposToShow =
-    topRepos.length > 0
-      ? [...topRepos, ...(otherRepos.length > 0 ? ["Others"] : [])]
-      : [];
-
-  // Get the appropriate data key and formatter based on breakdown
-  const getDataKey = (repo: string) =>
-    breakdown === "cost" ? repo : `${repo}_quantity`;
+  // Get the appropriate formatter based on breakdown
   const getFormatter = () =>
     breakdown === "cost" ? formatCurrency : formatQuantity;
-  const getBreakdownValue = (item: any) =>
-    breakdown === "cost" ? item.cost : item.quantity;
   const getBreakdownLabel = () => (breakdown === "cost" ? "Cost" : "Usage");
 
   return (
@@ -955,12 +721,16 @@ function RepositoryBasedChart({
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-        {/* Daily Trend - Stacked Bar Chart by Repository */}
+        {/* Trend - Stacked Bar Chart by Repository */}
         <div className="bg-gray-800/30 rounded-lg p-6">
           <h3 className="text-lg font-semibold mb-4">
-            Daily {getBreakdownLabel()} by Repository
+            {getBucketAdjective(bucket)} {getBreakdownLabel()} by Repository
           </h3>
-          <ResponsiveContainer width="100%" height={300}>
+          <ResponsiveContainer
+            width="100%"
+            height={300}
+            onResize={onChartResize}
+          >
             <BarChart data={stackedChartData}>
               <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
               <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} />
@@ -980,15 +750,17 @@ function RepositoryBasedChart({
                   getBreakdownLabel(),
                 ]}
                 labelStyle={{ color: "#d1d5db" }}
+                labelFormatter={formatPeriodLabel}
               />
-              {reposToShow.map((repo, index) => (
+              {repoBreakdown.map((repo, index) => (
                 <Bar
-                  key={repo}
-                  dataKey={getDataKey(repo)}
+                  key={repo.key}
+                  dataKey={repo.key}
+                  name={repo.name}
                   stackId="1"
                   fill={COLORS[index % COLORS.length]}
                   radius={
-                    index === reposToShow.length - 1
+                    index === repoBreakdown.length - 1
                       ? [4, 4, 0, 0]
                       : [0, 0, 0, 0]
                   }
@@ -1036,7 +808,7 @@ function RepositoryBasedChart({
           </ResponsiveContainer>
           <div className="mt-4 space-y-2 max-h-32 overflow-y-auto">
             {repoBreakdown.map((entry, index) => (
-              <div key={entry.name} className="flex items-center text-sm">
+              <div key={entry.key} className="flex items-center text-sm">
                 <div
                   className="w-3 h-3 rounded mr-2"
                   style={{ backgroundColor: COLORS[index % COLORS.length] }}
@@ -1048,7 +820,7 @@ function RepositoryBasedChart({
                   {entry.name}
                 </span>
                 <span className="text-white font-medium">
-                  {getFormatter()(getBreakdownValue(entry))}
+                  {getFormatter()(entry[breakdown])}
                 </span>
               </div>
             ))}
@@ -1060,7 +832,7 @@ function RepositoryBasedChart({
       {hasMultipleOrganizations && (
         <div className="bg-gray-800/30 rounded-lg p-6">
           <h3 className="text-lg font-semibold mb-4">
-            Daily {getBreakdownLabel()} by Organization
+            {getBucketAdjective(bucket)} {getBreakdownLabel()} by Organization
           </h3>
           <ResponsiveContainer width="100%" height={300}>
             <AreaChart data={orgChartData}>
@@ -1082,12 +854,14 @@ function RepositoryBasedChart({
                   getBreakdownLabel(),
                 ]}
                 labelStyle={{ color: "#d1d5db" }}
+                labelFormatter={formatPeriodLabel}
               />
-              {orgsToShow.map((org: string, index: number) => (
+              {orgBreakdown.map((org, index) => (
                 <Area
-                  key={org}
+                  key={org.key}
                   type="monotone"
-                  dataKey={org}
+                  dataKey={org.key}
+                  name={org.name}
                   stackId="1"
                   stroke={COLORS[index % COLORS.length]}
                   fill={COLORS[index % COLORS.length]}
@@ -1119,7 +893,7 @@ function RepositoryBasedChart({
             <tbody>
               {repoBreakdown.map((repo, index) => (
                 <tr
-                  key={repo.name}
+                  key={repo.key}
                   className="border-b border-gray-800 hover:bg-gray-800/50"
                 >
                   <td className="py-3 px-4">
@@ -1158,122 +932,43 @@ function RepositoryBasedChart({
 }
 
 function SKUBasedChart({
-  data,
+  rows,
   title,
   serviceType,
   breakdown = "quantity",
   storageUnit = "gb-hours",
-}: ServiceChartProps) {
-  // Check if we have multiple organizations to show organization breakdown
-  const organizations = Array.from(
-    new Set(data.map((item) => item.organization).filter(Boolean)),
-  );
-  const hasMultipleOrganizations = organizations.length > 1;
-
-  // Aggregate data by date
-  const dailyData = data.reduce(
-    (acc, item) => {
-      const date = item.date;
-      if (!acc[date]) {
-        acc[date] = {
-          date,
-          cost: 0,
-          quantity: 0,
-          skus: new Set(),
-          organizations: new Set(),
-        };
-      }
-      acc[date].cost += item.cost;
-      acc[date].quantity += item.quantity;
-      acc[date].skus.add(item.sku);
-      if (item.organization) acc[date].organizations.add(item.organization);
-      return acc;
-    },
-    {} as Record<
-      string,
-      {
-        date: string;
-        cost: number;
-        quantity: number;
-        skus: Set<string>;
-        organizations: Set<string>;
-      }
-    >,
-  );
+  bucket,
+  chartWidth,
+  onChartResize,
+  billingCycleStartDay,
+}: BucketedChartProps) {
+  // Top 6 SKUs by cost, the rest as "Others"
+  const bySku = aggregate(rows, {
+    groupBy: "sku",
+    topN: 6,
+    bucket,
+    billingCycleStartDay,
+  });
+  const byOrg = aggregate(rows, { groupBy: "organization" });
 
-  const rawSkuDates = Object.keys(dailyData);
-  const multiYearSku = spansMultipleYears(rawSkuDates);
+  // Check if we have multiple organizations to show organization breakdown
+  const hasMultipleOrganizations = byOrg.groupCount > 1;
 
-  const chartData = Object.values(dailyData)
-    .sort((a, b) => a.date.localeCompare(b.date))
-    .map((item) => ({
-      date: formatDateForChart(item.date, multiYearSku),
-      cost: item.cost,
-      quantity: item.quantity,
-      skuCount: item.skus.size,
-      orgCount: item.organizations.size,
-    }));
-  // SKU breakdown for pie chart
-  const skuData = data.reduce(
-    (acc, item) => {
-      if (!acc[item.sku]) {
-        acc[item.sku] = { sku: item.sku, cost: 0, quantity: 0 };
-      }
-      acc[item.sku].cost += item.cost;
-      acc[item.sku].quantity += item.quantity;
-      return acc;
-    },
-    {} as Record<string, { sku: string; cost: number; quantity: number }>,
+  const chartData = labelChartPoints(
+    fitChartPoints(bySku.series, chartWidth, (point) => point[breakdown]),
+    bucket,
+    billingCycleStartDay,
   );
+  const skuPieData = bySku.groups;
+  const orgPieData = hasMultipleOrganizations ? byOrg.groups : [];
 
-  const skuPieData = Object.values(skuData)
-    .sort((a, b) => b.cost - a.cost)
-    .slice(0, 6); // Top 6 SKUs
-
-  // Organization breakdown for pie chart (if multiple organizations)
-  const orgData = hasMultipleOrganizations
-    ? data.reduce(
-        (acc, item) => {
-          const org = item.organization || "Unknown";
-          if (!acc[org]) {
-            acc[org] = { organization: org, cost: 0, quantity: 0 };
-          }
-          acc[org].cost += item.cost;
-          acc[org].quantity += item.quantity;
-          return acc;
-        },
-        {} as Record<
-          string,
-          { organization: string; cost: number; quantity: number }
-        >,
-      )
-    : {};
+  const { cost: totalCost, quantity: totalQuantity } = bySku.totals;
+  const uniqueSkus = bySku.groupCount;
+  const uniqueOrganizations = byOrg.groupCount;
 
-  const orgPieData = hasMultipleOrganizations
-    ? Object.values(orgData).sort((a, b) => b.cost - a.cost)
-    : [];
-
-  const totalCost = data.reduce((sum, item) => sum + item.cost, 0);
-  const totalQuantity = data.reduce((sum, item) => sum + item.quantity, 0);
-  const uniqueSkus = new Set(data.map((item) => item.sku)).size;
-  const uniqueOrganizations = organizations.length;
-
-  const formatCurrency = (value: number) => `$${value.toFixed(2)}`;
-  const formatQuantity = (value: number) => {
-    if (serviceType === "actionsMinutes") {
-      return `${value.toLocaleString()} min`;
-    } else if (serviceType === "actionsStorage" || serviceType === "packages") {
-      if (storageUnit === "gb-months") {
-        const gbMonths = convertToGBMonths(value);
-        return `${gbMonths.toLocaleString(undefined, { maximumFractionDigits: 2 })} GB·mo`;
-      }
-      return `${value.toLocaleString()} GB·h`;
-    } else if (serviceType === "copilot") {
-      return `${value.toFixed(2)} users`;
-    } else {
-      return value.toLocaleString();
-    }
-  };
+  const unitType = getUnitType(rows);
+  const formatQuantity = (value: number) =>
+    formatQuantityForUnit(value, unitType, serviceType, storageUnit);
 
   // Get the appropriate formatter and labels based on breakdown
   const getFormatter = () =>
@@ -1320,13 +1015,17 @@ function SKUBasedChart({
           hasMultipleOrganizations ? "lg:grid-cols-3" : "lg:grid-cols-2"
         } gap-6`}
       >
-        {/* Daily Trend */}
+        {/* Trend */}
         <div className={hasMultipleOrganizations ? "lg:col-span-2" : ""}>
           <div className="bg-gray-800/30 rounded-lg p-6">
             <h3 className="text-lg font-semibold mb-4">
-              Daily {getBreakdownLabel()} Trend
+              {getBucketAdjective(bucket)} {getBreakdownLabel()} Trend
             </h3>
-            <ResponsiveContainer width="100%" height={300}>
+            <ResponsiveContainer
+              width="100%"
+              height={300}
+              onResize={onChartResize}
+            >
               <AreaChart data={chartData}>
                 <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
                 <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} />
@@ -1346,6 +1045,7 @@ function SKUBasedChart({
                     getBreakdownLabel(),
                   ]}
                   labelStyle={{ color: "#d1d5db" }}
+                  labelFormatter={formatPeriodLabel}
                 />
                 <Area
                   type="monotone"
@@ -1398,16 +1098,16 @@ function SKUBasedChart({
           </ResponsiveContainer>
           <div className="mt-4 space-y-2 max-h-32 overflow-y-auto">
             {skuPieData.map((entry, index) => (
-              <div key={entry.sku} className="flex items-center text-sm">
+              <div key={entry.key} className="flex items-center text-sm">
                 <div
                   className="w-3 h-3 rounded mr-2"
                   style={{ backgroundColor: COLORS[index % COLORS.length] }}
                 />
                 <span
                   className="text-gray-300 flex-1 truncate"
-                  title={entry.sku}
+                  title={entry.name}
                 >
-                  {entry.sku}
+                  {entry.name}
                 </span>
                 <span className="text-white font-medium">
                   {getFormatter()(entry[breakdown])}
@@ -1462,7 +1162,7 @@ function SKUBasedChart({
                 <div className="space-y-2 max-h-64 overflow-y-auto">
                   {orgPieData.map((entry, index) => (
                     <div
-                      key={entry.organization}
+                      key={entry.key}
                       className="flex items-center justify-between text-sm bg-gray-700/30 rounded p-2"
                     >
                       <div className="flex items-center">
@@ -1475,9 +1175,9 @@ function SKUBasedChart({
                         />
                         <span
                           className="text-white font-medium"
-                          title={entry.organization}
+                          title={entry.name}
                         >
-                          {entry.organization}
+                          {entry.name}
                         </span>
                       </div>
                       <div className="text-right">
@@ -0,0 +1,311 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from "recharts";
+import { DataProcessor, getBucketStart } from "@/lib/dataProcessor";
+import { SERVICE_REGISTRY, ServiceId } from "@/lib/serviceRegistry";
+import { formatCurrency } from "@/lib/chartFormat";
+import { MeasureTotals, aggregate } from "@/lib/aggregation";
+import { DatasetRows } from "@/lib/columnarDataset";
+import {
+  DEFAULT_GRANULARITY,
+  Granularity,
+  fitChartPoints,
+  formatPeriodLabel,
+  getBucketAdjective,
+  labelChartPoints,
+  resolveGranularity,
+} from "@/lib/granularity";
+
+interface SpendAnalysisChartProps {
+  rows: DatasetRows; // Rows remaining after the shared filters
+  serviceRows: Record<string, DatasetRows>; // The same rows per service
+  granularity?: Granularity;
+  billingCycleStartDay?: number;
+}
+
+/** Share of the gross spend covered by discounts, as a percentage */
+function getDiscountCoverage({ gross, discount }: MeasureTotals): number {
+  return gross > 0 ? (discount / gross) * 100 : 0;
+}
+
+export function SpendAnalysisChart({
+  rows,
+  serviceRows,
+  granularity = DEFAULT_GRANULARITY,
+  billingCycleStartDay,
+}: SpendAnalysisChartProps) {
+  const [selectedService, setSelectedService] = useState<ServiceId | "all">(
+    "all",
+  );
+  const [chartWidth, setChartWidth] = useState<number>();
+
+  const serviceData = useMemo(
+    () =>
+      SERVICE_REGISTRY.filter(({ id }) => serviceRows[id]).map(
+        ({ id: service, label }) => {
+          const daily = aggregate(serviceRows[service]);
+          return {
+            service,
+            label,
+            rows: serviceRows[service],
+            summary: daily.totals,
+            quotaExhaustedOn: DataProcessor.findQuotaExhaustionDates(
+              daily.series,
+              billingCycleStartDay,
+            ),
+          };
+        },
+      ),
+    [serviceRows, billingCycleStartDay],
+  );
+
+  const servicesWithData = serviceData.filter(
+    (s) => s.rows.selection.length > 0,
+  );
+
+  if (servicesWithData.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64 text-gray-500">
+        <div className="text-center">
+          <p className="text-lg font-medium">No data available</p>
+          <p className="text-sm">No spend matches the current filters</p>
+        </div>
+      </div>
+    );
+  }
+
+  const selected =
+    selectedService === "all"
+      ? null
+      : servicesWithData.find((s) => s.service === selectedService) || null;
+
+  const trendRows = selected ? selected.rows : rows;
+  const { totals: summary, series: days } = aggregate(trendRows);
+
+  const bucket = resolveGranularity(
+    granularity,
+    days[0].date,
+    days[days.length - 1].date,
+    billingCycleStartDay,
+    chartWidth,
+  );
+  const trend = fitChartPoints(
+    aggregate(trendRows, { bucket, billingCycleStartDay }).series,
+    chartWidth,
+    (point) => point.gross,
+  );
+  const chartData = labelChartPoints(
+    trend.map(({ date, gross, discount, cost }) => ({
+      date,
+      gross,
+      discount,
+      net: cost,
+    })),
+    bucket,
+    billingCycleStartDay,
+  );
+  const labels = new Map(
+    trend.map((point, index) => [point.date, chartData[index].date]),
+  );
+
+  // Quotas are tracked per service, so flag each service's exhaustion day
+  // on the point covering it, where that point is drawn
+  const exhaustionMarkers = (selected ? [selected] : servicesWithData)
+    .flatMap((s) =>
+      s.quotaExhaustedOn.map((date) => ({
+        date: labels.get(getBucketStart(date, bucket, billingCycleStartDay)),
+        label: s.label,
+      })),
+    )
+    .filter((marker) => marker.date !== undefined);
+
+  const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
+  return (
+    <div className="space-y-6">
+      {/* Summary Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <h3 className="text-sm text-gray-400 mb-1">Gross Spend</h3>
+          <p className="text-2xl font-bold text-blue-400">
+            {formatCurrency(summary.gross)}
+          </p>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <h3 className="text-sm text-gray-400 mb-1">Discounts</h3>
+          <p className="text-2xl font-bold text-purple-400">
+            {formatCurrency(summary.discount)}
+          </p>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <h3 className="text-sm text-gray-400 mb-1">Net Spend</h3>
+          <p className="text-2xl font-bold text-green-400">
+            {formatCurrency(summary.cost)}
+          </p>
+        </div>
+        <div className="bg-gray-800/50 rounded-lg p-4">
+          <h3 className="text-sm text-gray-400 mb-1">Discount Coverage</h3>
+          <p className="text-2xl font-bold text-orange-400">
+            {formatPercent(getDiscountCoverage(summary))}
+          </p>
+        </div>
+      </div>
+
+      {/* Gross / Discount / Net Trend */}
+      <div className="bg-gray-800/30 rounded-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">
+            {getBucketAdjective(bucket)} Gross vs Discount vs Net
+          </h3>
+          <select
+            value={selectedService}
+            onChange={(e) =>
+              setSelectedService(e.target.value)
+            }
+            className="px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="all">All Services</option>
+            {servicesWithData.map((s) => (
+              <option key={s.service} value={s.service}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <ResponsiveContainer
+          width="100%"
+          height={300}
+          onResize={(width) => setChartWidth(Math.round(width))}
+        >
+          <AreaChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+            <XAxis dataKey="date" stroke="#9ca3af" fontSize={12} />
+            <YAxis
+              stroke="#9ca3af"
+              fontSize={12}
+              tickFormatter={formatCurrency}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "#1f2937",
+                border: "1px solid #374151",
+                borderRadius: "8px",
+              }}
+              formatter={(value: number, name: string) => [
+                formatCurrency(value),
+                name,
+              ]}
+              labelStyle={{ color: "#d1d5db" }}
+              labelFormatter={formatPeriodLabel}
+            />
+            <Legend />
+            <Area
+              type="monotone"
+              dataKey="gross"
+              name="Gross"
+              stroke="#3b82f6"
+              fill="#3b82f6"
+              fillOpacity={0.15}
+              strokeWidth={2}
+            />
+            <Area
+              type="monotone"
+              dataKey="discount"
+              name="Discount"
+              stroke="#8b5cf6"
+              fill="#8b5cf6"
+              fillOpacity={0.15}
+              strokeWidth={2}
+            />
+            <Area
+              type="monotone"
+              dataKey="net"
+              name="Net"
+              stroke="#22c55e"
+              fill="#22c55e"
+              fillOpacity={0.3}
+              strokeWidth={2}
+            />
+            {exhaustionMarkers.map((marker) => (
+              <ReferenceLine
+                key={`${marker.label}-${marker.date}`}
+                x={marker.date}
+                stroke="#f59e0b"
+                strokeDasharray="4 4"
+                label={{
+                  value: `${marker.label} quota used up`,
+                  fill: "#f59e0b",
+                  fontSize: 11,
+                  position: "insideTopLeft",
+                }}
+              />
+            ))}
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Per-Service Breakdown */}
+      <div className="bg-gray-800/30 rounded-lg p-6">
+        <h3 className="text-lg font-semibold mb-4">Spend by Service</h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="text-left py-3 px-4 text-gray-300">Service</th>
+                <th className="text-right py-3 px-4 text-gray-300">Gross</th>
+                <th className="text-right py-3 px-4 text-gray-300">
+                  Discount
+                </th>
+                <th className="text-right py-3 px-4 text-gray-300">Net</th>
+                <th className="text-right py-3 px-4 text-gray-300">
+                  Coverage
+                </th>
+                <th className="text-right py-3 px-4 text-gray-300">
+                  Quota Used Up
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {servicesWithData.map((s) => (
+                <tr
+                  key={s.service}
+                  className="border-b border-gray-800 hover:bg-gray-800/50"
+                >
+                  <td className="py-3 px-4 text-white">{s.label}</td>
+                  <td className="text-right py-3 px-4 text-gray-300">
+                    {formatCurrency(s.summary.gross)}
+                  </td>
+                  <td className="text-right py-3 px-4 text-gray-300">
+                    {formatCurrency(s.summary.discount)}
+                  </td>
+                  <td className="text-right py-3 px-4 text-white font-medium">
+                    {formatCurrency(s.summary.cost)}
+                  </td>
+                  <td className="text-right py-3 px-4 text-gray-300">
+                    {formatPercent(getDiscountCoverage(s.summary))}
+                  </td>
+                  <td className="text-right py-3 px-4 text-gray-300">
+                    {s.quotaExhaustedOn.length > 0
+                      ? s.quotaExhaustedOn.join(", ")
+                      : "—"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
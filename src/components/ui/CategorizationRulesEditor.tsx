@@ -0,0 +1,314 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { ServiceData } from "@/types/billing";
+import {
+  CategorizationRule,
+  DEFAULT_CATEGORIZATION_RULES,
+  testRules,
+  validateRule,
+} from "@/lib/categorizationRules";
+import { OTHER_SERVICE_ID, SERVICE_REGISTRY } from "@/lib/serviceRegistry";
+
+interface CategorizationRulesEditorProps {
+  data: ServiceData[]; // Every loaded row, used to test draft rules
+  rules: CategorizationRule[]; // Rules currently applied
+  onApply: (rules: CategorizationRule[]) => void;
+}
+
+const inputClassName =
+  "w-full px-2 py-1.5 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+export function CategorizationRulesEditor({
+  data,
+  rules,
+  onApply,
+}: CategorizationRulesEditorProps) {
+  const [draft, setDraft] = useState<CategorizationRule[]>(rules);
+
+  // Pick up rules applied from elsewhere
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const testResult = useMemo(() => testRules(data, draft), [data, draft]);
+
+  // Group unmatched rows so the list stays short on large reports
+  const unmatchedGroups = useMemo(() => {
+    const groups: Record<
+      string,
+      { product: string; sku: string; unitType: string; rows: number }
+    > = {};
+    testResult.unmatched.forEach((item) => {
+      const key = `${item.product}\u0000${item.sku}\u0000${item.unitType}`;
+      if (!groups[key]) {
+        groups[key] = {
+          product: item.product || "",
+          sku: item.sku,
+          unitType: item.unitType || "",
+          rows: 0,
+        };
+      }
+      groups[key].rows += 1;
+    });
+    return Object.values(groups).sort((a, b) => b.rows - a.rows);
+  }, [testResult]);
+
+  const errors = draft.map(validateRule);
+  const hasErrors = errors.some(Boolean);
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules);
+
+  const updateRule = (index: number, changes: Partial<CategorizationRule>) => {
+    setDraft((prev) =>
+      prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule))
+    );
+  };
+
+  const moveRule = (index: number, offset: -1 | 1) => {
+    setDraft((prev) => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const addRule = (template: Partial<CategorizationRule> = {}) => {
+    setDraft((prev) => [
+      ...prev,
+      {
+        id: `rule-${Date.now().toString(36)}-${prev.length}`,
+        name: "New rule",
+        category: OTHER_SERVICE_ID,
+        ...template,
+      },
+    ]);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800/30 rounded-lg p-6">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-lg font-semibold">Categorization Rules</h3>
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => setDraft(DEFAULT_CATEGORIZATION_RULES)}
+              className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              Reset to Defaults
+            </button>
+            <button
+              onClick={() => onApply(draft)}
+              disabled={!isDirty || hasErrors}
+              className="px-4 py-2 text-sm font-medium rounded-lg bg-green-600 text-white hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Apply &amp; Save
+            </button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Rules are checked top to bottom and the first match wins. Empty
+          fields match anything; rows no rule matches go to Other Products.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-700">
+                <th className="text-left py-2 px-2 text-gray-300">Name</th>
+                <th className="text-left py-2 px-2 text-gray-300">Product</th>
+                <th className="text-left py-2 px-2 text-gray-300">
+                  SKU Pattern
+                </th>
+                <th className="text-left py-2 px-2 text-gray-300">
+                  Unit Type
+                </th>
+                <th className="text-left py-2 px-2 text-gray-300">Category</th>
+                <th className="text-right py-2 px-2 text-gray-300">Matched</th>
+                <th className="py-2 px-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {draft.map((rule, index) => (
+                <tr key={rule.id} className="border-b border-gray-800 align-top">
+                  <td className="py-2 px-2">
+                    <input
+                      value={rule.name}
+                      onChange={(e) =>
+                        updateRule(index, { name: e.target.value })
+                      }
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <input
+                      value={rule.product || ""}
+                      placeholder="any"
+                      onChange={(e) =>
+                        updateRule(index, {
+                          product: e.target.value || undefined,
+                        })
+                      }
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <input
+                      value={rule.skuPattern || ""}
+                      placeholder="any"
+                      onChange={(e) =>
+                        updateRule(index, {
+                          skuPattern: e.target.value || undefined,
+                        })
+                      }
+                      className={`${inputClassName} font-mono`}
+                    />
+                    {errors[index] && (
+                      <p className="text-xs text-red-400 mt-1">
+                        {errors[index]}
+                      </p>
+                    )}
+                  </td>
+                  <td className="py-2 px-2">
+                    <input
+                      value={rule.unitType || ""}
+                      placeholder="any"
+                      onChange={(e) =>
+                        updateRule(index, {
+                          unitType: e.target.value || undefined,
+                        })
+                      }
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-2 px-2">
+                    <select
+                      value={rule.category}
+                      onChange={(e) =>
+                        updateRule(index, {
+                          category: e.target.value,
+                        })
+                      }
+                      className={inputClassName}
+                    >
+                      {SERVICE_REGISTRY.map((service) => (
+                        <option key={service.id} value={service.id}>
+                          {service.title}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="text-right py-2 px-2 text-gray-300">
+                    {(testResult.matchCounts[rule.id] || 0).toLocaleString()}
+                  </td>
+                  <td className="py-2 px-2">
+                    <div className="flex items-center justify-end space-x-1 text-gray-400">
+                      <button
+                        onClick={() => moveRule(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 hover:text-white disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => moveRule(index, 1)}
+                        disabled={index === draft.length - 1}
+                        className="p-1 hover:text-white disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() =>
+                          setDraft((prev) => prev.filter((_, i) => i !== index))
+                        }
+                        className="p-1 hover:text-red-400"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <button
+          onClick={() => addRule()}
+          className="mt-4 inline-flex items-center text-sm text-blue-400 hover:text-blue-300 transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Rule
+        </button>
+      </div>
+
+      {/* Unmatched rows for the draft rules */}
+      <div className="bg-gray-800/30 rounded-lg p-6">
+        <h3 className="text-lg font-semibold mb-1">Unmatched Rows</h3>
+        <p className="text-sm text-gray-400 mb-4">
+          {testResult.unmatched.length.toLocaleString()} of{" "}
+          {data.length.toLocaleString()} rows are not matched by any rule
+        </p>
+        {unmatchedGroups.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-700">
+                  <th className="text-left py-2 px-2 text-gray-300">Product</th>
+                  <th className="text-left py-2 px-2 text-gray-300">SKU</th>
+                  <th className="text-left py-2 px-2 text-gray-300">
+                    Unit Type
+                  </th>
+                  <th className="text-right py-2 px-2 text-gray-300">Rows</th>
+                  <th className="py-2 px-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {unmatchedGroups.map((group) => (
+                  <tr
+                    key={`${group.product}-${group.sku}-${group.unitType}`}
+                    className="border-b border-gray-800"
+                  >
+                    <td className="py-2 px-2 text-white">{group.product}</td>
+                    <td className="py-2 px-2 text-gray-300 font-mono">
+                      {group.sku}
+                    </td>
+                    <td className="py-2 px-2 text-gray-300">
+                      {group.unitType}
+                    </td>
+                    <td className="text-right py-2 px-2 text-gray-300">
+                      {group.rows.toLocaleString()}
+                    </td>
+                    <td className="text-right py-2 px-2">
+                      <button
+                        onClick={() =>
+                          addRule({
+                            name: group.sku,
+                            product: group.product || undefined,
+                            skuPattern: `^${escapeRegExp(group.sku)}$`,
+                          })
+                        }
+                        className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+                      >
+                        Add rule
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
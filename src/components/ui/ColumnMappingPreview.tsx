@@ -0,0 +1,187 @@
+"use client";
+
+import { useState } from "react";
+import { AlertCircle, AlertTriangle } from "lucide-react";
+import { ReportFormatId } from "@/types/billing";
+import { ReportPreview } from "@/lib/fileParser";
+import {
+  ColumnIndices,
+  ColumnMapping,
+  ENHANCED_BILLING_FORMAT,
+  REPORT_FORMATS,
+  getMissingFields,
+  getReportFormat,
+  resolveColumns,
+} from "@/lib/reportFormats";
+
+interface ColumnMappingPreviewProps {
+  preview: ReportPreview;
+  fileNames: string[]; // Files sharing this header
+  onConfirm: (mapping: ColumnMapping) => void;
+  onCancel: () => void;
+}
+
+const selectClassName =
+  "w-full px-2 py-1.5 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+/**
+ * Shows the detected column mapping and the first rows of an upload, and
+ * lets the user reassign columns before the file is parsed
+ */
+export function ColumnMappingPreview({
+  preview,
+  fileNames,
+  onConfirm,
+  onCancel,
+}: ColumnMappingPreviewProps) {
+  const [formatId, setFormatId] = useState<ReportFormatId>(preview.format);
+  const [columns, setColumns] = useState<ColumnIndices>(preview.columns);
+
+  const format = getReportFormat(formatId) || ENHANCED_BILLING_FORMAT;
+  const missing = getMissingFields(format, columns);
+  const ambiguous = formatId === preview.format ? preview.ambiguous : [];
+
+  // Label each header cell with the field it feeds
+  const fieldByColumn = new Map<number, string>();
+  format.fields.forEach((field) => {
+    if (columns[field.key] >= 0) {
+      fieldByColumn.set(columns[field.key], field.label);
+    }
+  });
+
+  const handleFormatChange = (id: ReportFormatId) => {
+    const nextFormat = getReportFormat(id);
+    setFormatId(id);
+    setColumns(
+      id === preview.format || !nextFormat
+        ? preview.columns
+        : resolveColumns(nextFormat, preview.header).columns
+    );
+  };
+
+  return (
+    <div className="mt-4 p-6 bg-gray-800/50 border border-gray-700 rounded-lg text-left">
+      <div className="flex items-start justify-between mb-4">
+        <div className="min-w-0">
+          <h3 className="text-lg font-semibold text-white">
+            Review Column Mapping
+          </h3>
+          <p
+            className="text-sm text-gray-400 truncate"
+            title={fileNames.join(", ")}
+          >
+            {fileNames.join(", ")}
+          </p>
+        </div>
+        <select
+          value={formatId}
+          onChange={(e) => handleFormatChange(e.target.value as ReportFormatId)}
+          className={`${selectClassName} w-auto ml-4`}
+        >
+          {REPORT_FORMATS.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-4">
+        {format.fields.map((field) => (
+          <label key={field.key} className="block text-sm">
+            <span className="flex items-center text-gray-300 mb-1">
+              {field.label}
+              {field.required && <span className="text-red-400 ml-1">*</span>}
+              {ambiguous.includes(field.key) && (
+                <span
+                  className="inline-flex items-center text-xs text-yellow-400 ml-2"
+                  title="Several columns match this field"
+                >
+                  <AlertTriangle className="w-3 h-3 mr-1" />
+                  check
+                </span>
+              )}
+            </span>
+            <select
+              value={columns[field.key] ?? -1}
+              onChange={(e) =>
+                setColumns((prev) => ({
+                  ...prev,
+                  [field.key]: Number(e.target.value),
+                }))
+              }
+              className={selectClassName}
+            >
+              <option value={-1}>Not mapped</option>
+              {preview.header.map((name, index) => (
+                <option key={index} value={index}>
+                  {name || `Column ${index + 1}`}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+
+      {missing.length > 0 && (
+        <div className="mb-4 flex items-center text-sm text-red-300">
+          <AlertCircle className="w-4 h-4 text-red-400 mr-2 flex-shrink-0" />
+          Map {missing.map((field) => field.label).join(", ")} to continue
+        </div>
+      )}
+
+      <div className="overflow-x-auto mb-4">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="border-b border-gray-700">
+              {preview.header.map((name, index) => (
+                <th key={index} className="text-left py-2 px-2 align-bottom">
+                  {fieldByColumn.has(index) && (
+                    <span className="block text-blue-400 font-normal">
+                      {fieldByColumn.get(index)}
+                    </span>
+                  )}
+                  <span className="text-gray-300 whitespace-nowrap">
+                    {name}
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {preview.rows.map((row, rowIndex) => (
+              <tr key={rowIndex} className="border-b border-gray-800">
+                {preview.header.map((_, index) => (
+                  <td
+                    key={index}
+                    className={`py-2 px-2 whitespace-nowrap ${
+                      fieldByColumn.has(index) ? "text-white" : "text-gray-500"
+                    }`}
+                  >
+                    {row[index]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center justify-end space-x-4">
+        <button
+          onClick={onCancel}
+          className="text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm({ format: formatId, columns })}
+          disabled={missing.length > 0}
+          className="px-4 py-2 text-sm font-medium rounded-lg bg-green-600 text-white hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Import
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,351 +1,126 @@
-import { useState, useEffect, useMemo } from "react";
-import { ServiceData } from "@/types/billing";
+import { getService, ServiceId } from "@/lib/serviceRegistry";
+import { FilterState, hasActiveFilters } from "@/lib/filters";
+import { ColumnarDataset } from "@/lib/columnarDataset";
+import { FilterChips, FilterFields } from "@/components/ui/FilterFields";
 
 interface DataFiltersProps {
-  data: ServiceData[];
-  onFiltersChange: (filteredData: ServiceData[]) => void;
+  dataset: ColumnarDataset;
+  globalFilters: FilterState;
+  override?: FilterState; // Replaces the global filters for this tab
+  onOverrideChange: (override: FilterState | undefined) => void;
+  breakdown?: "cost" | "quantity";
   onBreakdownChange?: (breakdown: "cost" | "quantity") => void;
+  storageUnit?: "gb-hours" | "gb-months";
   onStorageUnitChange?: (unit: "gb-hours" | "gb-months") => void;
-  serviceType?:
-    | "actionsMinutes"
-    | "actionsStorage"
-    | "packages"
-    | "copilot"
-    | "codespaces";
+  serviceType?: ServiceId;
+  billingCycleStartDay?: number;
 }
 
-interface FilterState {
-  dateRange: {
-    start: string;
-    end: string;
-  };
-  organization: string;
-  costCenter: string;
-  repository: string;
-  breakdown: "cost" | "quantity";
-  storageUnit: "gb-hours" | "gb-months";
-}
+const selectClassName =
+  "px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
 
+/**
+ * Per-tab controls: an optional override of the global filters, plus the
+ * breakdown and storage unit selectors of services that support them
+ */
 export function DataFilters({
-  data,
-  onFiltersChange,
+  dataset,
+  globalFilters,
+  override,
+  onOverrideChange,
+  breakdown,
   onBreakdownChange,
+  storageUnit,
   onStorageUnitChange,
   serviceType,
+  billingCycleStartDay,
 }: DataFiltersProps) {
-  const [filters, setFilters] = useState<FilterState>({
-    dateRange: { start: "", end: "" },
-    organization: "",
-    costCenter: "",
-    repository: "",
-    breakdown: "quantity",
-    storageUnit: "gb-hours",
-  });
-
-  // Get unique values for dropdowns
-  const organizations = Array.from(
-    new Set(data.map((item) => item.organization).filter(Boolean))
-  ).sort();
-  const costCenters = Array.from(
-    new Set(data.map((item) => item.costCenter).filter(Boolean))
-  ).sort();
-
-  // Filter repositories based on selected organization
-  const repositories = useMemo(() => {
-    if (!filters.organization) {
-      // If no organization selected, show ALL repositories
-      return Array.from(
-        new Set(data.map((item) => item.repository).filter(Boolean))
-      ).sort();
-    }
-    // Only show repositories from the selected organization
-    return Array.from(
-      new Set(
-        data
-          .filter((item) => item.organization === filters.organization)
-          .map((item) => item.repository)
-          .filter(Boolean)
-      )
-    ).sort();
-  }, [data, filters.organization]);
-
-  // Get date range from data
-  const dates = data.map((item) => item.date).sort();
-  const minDate = dates[0] || "";
-  const maxDate = dates[dates.length - 1] || "";
-
-  // Initialize date range on first load
-  useEffect(() => {
-    if (
-      minDate &&
-      maxDate &&
-      !filters.dateRange.start &&
-      !filters.dateRange.end
-    ) {
-      setFilters((prev) => ({
-        ...prev,
-        dateRange: { start: minDate, end: maxDate },
-      }));
-    }
-  }, [minDate, maxDate, filters.dateRange.start, filters.dateRange.end]);
-
-  // Calculate filtered data
-  const filteredData = useMemo(() => {
-    return data.filter((item) => {
-      // Date range filter
-      if (filters.dateRange.start && item.date < filters.dateRange.start)
-        return false;
-      if (filters.dateRange.end && item.date > filters.dateRange.end)
-        return false;
-
-      // Organization filter
-      if (filters.organization && item.organization !== filters.organization)
-        return false;
-
-      // Cost center filter
-      if (filters.costCenter && item.costCenter !== filters.costCenter)
-        return false;
-
-      // Repository filter
-      if (filters.repository && item.repository !== filters.repository)
-        return false;
-
-      return true;
-    });
-  }, [data, filters]);
-
-  // Apply filters whenever filteredData changes
-  useEffect(() => {
-    onFiltersChange(filteredData);
-  }, [filteredData]);
-
-  // Notify parent of breakdown changes
-  useEffect(() => {
-    if (onBreakdownChange) {
-      onBreakdownChange(filters.breakdown);
-    }
-  }, [filters.breakdown]);
-
-  // Notify parent of initial breakdown state on mount
-  useEffect(() => {
-    if (onBreakdownChange) {
-      onBreakdownChange(filters.breakdown);
-    }
-  }, []); // Only run on mount
-
-  // Notify parent of storage unit changes
-  useEffect(() => {
-    if (onStorageUnitChange) {
-      onStorageUnitChange(filters.storageUnit);
-    }
-  }, [filters.storageUnit]);
-
-  // Notify parent of initial storage unit on mount
-  useEffect(() => {
-    if (onStorageUnitChange) {
-      onStorageUnitChange(filters.storageUnit);
-    }
-  }, []); // Only run on mount
-
-  const handleFilterChange = (
-    key: string,
-    value: string | { start: string; end: string }
-  ) => {
-    setFilters((prev) => {
-      // Reset repository when organization changes
-      if (key === "organization" && typeof value === "string") {
-        return {
-          ...prev,
-          organization: value,
-          repository: "", // Clear repository selection when org changes
-        };
-      }
-      return {
-        ...prev,
-        [key]: value,
-      };
-    });
-  };
-
-  const resetFilters = () => {
-    setFilters({
-      dateRange: { start: minDate, end: maxDate },
-      organization: "",
-      costCenter: "",
-      repository: "",
-      breakdown: "quantity",
-      storageUnit: "gb-hours",
-    });
-  };
-
-  const hasActiveFilters =
-    filters.organization ||
-    filters.costCenter ||
-    filters.repository ||
-    filters.dateRange.start !== minDate ||
-    filters.dateRange.end !== maxDate;
+  const service = serviceType ? getService(serviceType) : undefined;
 
   // Show breakdown selector for relevant service types
-  const showBreakdownSelector =
-    serviceType === "actionsMinutes" ||
-    serviceType === "actionsStorage" ||
-    serviceType === "packages";
+  const showBreakdownSelector = Boolean(
+    service?.breakdownSelector && onBreakdownChange
+  );
 
   // Show storage unit selector for storage-related services
-  const showStorageUnitSelector =
-    serviceType === "actionsStorage" || serviceType === "packages";
-
-  // Calculate grid columns based on visible filters
-  const gridCols =
-    showBreakdownSelector && showStorageUnitSelector
-      ? "lg:grid-cols-6"
-      : showBreakdownSelector
-      ? "lg:grid-cols-5"
-      : "lg:grid-cols-4";
+  const showStorageUnitSelector = Boolean(
+    service?.storageUnits && onStorageUnitChange
+  );
 
   return (
     <div className="bg-gray-800/30 rounded-lg p-6 mb-6">
-      <div className="flex items-center justify-between mb-4">
-        <h3 className="text-lg font-semibold">Filters</h3>
-        {hasActiveFilters && (
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <h3 className="text-lg font-semibold">
+            {override ? "Tab Filters" : "Filters"}
+          </h3>
+          <span className="text-sm text-gray-400">
+            {override
+              ? "Overriding the global filters"
+              : hasActiveFilters(globalFilters)
+              ? "Using the global filters"
+              : "Showing all data"}
+          </span>
           <button
-            onClick={resetFilters}
+            onClick={() =>
+              onOverrideChange(override ? undefined : globalFilters)
+            }
             className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
           >
-            Reset Filters
+            {override ? "Use global filters" : "Override for this tab"}
           </button>
-        )}
-      </div>
-
-      <div className={`grid grid-cols-1 md:grid-cols-2 ${gridCols} gap-4`}>
-        {/* Date Range */}
-        <div className="space-y-2">
-          <label className="text-sm text-gray-400">Date Range</label>
-          <div className="space-y-2">
-            <input
-              type="date"
-              value={filters.dateRange.start}
-              min={minDate}
-              max={maxDate}
-              onChange={(e) =>
-                handleFilterChange("dateRange", {
-                  ...filters.dateRange,
-                  start: e.target.value,
-                })
-              }
-              className="w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            />
-            <input
-              type="date"
-              value={filters.dateRange.end}
-              min={minDate}
-              max={maxDate}
-              onChange={(e) =>
-                handleFilterChange("dateRange", {
-                  ...filters.dateRange,
-                  end: e.target.value,
-                })
-              }
-              className="w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            />
-          </div>
-        </div>
-
-        {/* Organization */}
-        <div className="space-y-2">
-          <label className="text-sm text-gray-400">Organization</label>
-          <select
-            value={filters.organization}
-            onChange={(e) => handleFilterChange("organization", e.target.value)}
-            className="w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          >
-            <option value="">All Organizations</option>
-            {organizations.map((org) => (
-              <option key={org} value={org}>
-                {org}
-              </option>
-            ))}
-          </select>
         </div>
 
-        {/* Cost Center */}
-        <div className="space-y-2">
-          <label className="text-sm text-gray-400">Cost Center</label>
-          <select
-            value={filters.costCenter}
-            onChange={(e) => handleFilterChange("costCenter", e.target.value)}
-            className="w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          >
-            <option value="">All Cost Centers</option>
-            {costCenters.map((cc) => (
-              <option key={cc} value={cc}>
-                {cc}
-              </option>
-            ))}
-          </select>
+        <div className="flex flex-wrap gap-4">
+          {/* Breakdown Selector */}
+          {showBreakdownSelector && (
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Breakdown By
+              <select
+                value={breakdown ?? service?.defaultBreakdown}
+                onChange={(e) =>
+                  onBreakdownChange?.(e.target.value as "cost" | "quantity")
+                }
+                className={selectClassName}
+              >
+                <option value="cost">Cost ($)</option>
+                <option value="quantity">Usage Volume</option>
+              </select>
+            </label>
+          )}
+
+          {/* Storage Unit Selector */}
+          {showStorageUnitSelector && (
+            <label className="flex items-center gap-2 text-sm text-gray-400">
+              Storage Unit
+              <select
+                value={storageUnit ?? "gb-hours"}
+                onChange={(e) =>
+                  onStorageUnitChange?.(
+                    e.target.value as "gb-hours" | "gb-months"
+                  )
+                }
+                className={selectClassName}
+              >
+                <option value="gb-hours">GB-Hours</option>
+                <option value="gb-months">GB-Months</option>
+              </select>
+            </label>
+          )}
         </div>
+      </div>
 
-        {/* Repository */}
-        <div className="space-y-2">
-          <label className="text-sm text-gray-400">Repository</label>
-          <select
-            value={filters.repository}
-            onChange={(e) => handleFilterChange("repository", e.target.value)}
-            className="w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-          >
-            <option value="">
-              {filters.organization
-                ? `All Repositories in ${filters.organization}`
-                : "All Repositories"}
-            </option>
-            {repositories.map((repo) => (
-              <option key={repo} value={repo}>
-                {repo}
-              </option>
-            ))}
-          </select>
+      {override && (
+        <div className="mt-4 space-y-4">
+          <FilterFields
+            dataset={dataset}
+            filters={override}
+            onChange={onOverrideChange}
+            billingCycleStartDay={billingCycleStartDay}
+          />
+          <FilterChips filters={override} onChange={onOverrideChange} />
         </div>
-
-        {/* Breakdown Selector */}
-        {showBreakdownSelector && (
-          <div className="space-y-2">
-            <label className="text-sm text-gray-400">Breakdown By</label>
-            <select
-              value={filters.breakdown}
-              onChange={(e) =>
-                handleFilterChange(
-                  "breakdown",
-                  e.target.value as "cost" | "quantity"
-                )
-              }
-              className="w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            >
-              <option value="cost">Cost ($)</option>
-              <option value="quantity">Usage Volume</option>
-            </select>
-          </div>
-        )}
-
-        {/* Storage Unit Selector */}
-        {showStorageUnitSelector && (
-          <div className="space-y-2">
-            <label className="text-sm text-gray-400">Storage Unit</label>
-            <select
-              value={filters.storageUnit}
-              onChange={(e) =>
-                handleFilterChange(
-                  "storageUnit",
-                  e.target.value as "gb-hours" | "gb-months"
-                )
-              }
-              className="w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            >
-              <option value="gb-hours">GB-Hours</option>
-              <option value="gb-months">GB-Months</option>
-            </select>
-          </div>
-        )}
-      </div>
+      )}
     </div>
   );
 }
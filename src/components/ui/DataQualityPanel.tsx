@@ -0,0 +1,161 @@
+"use client";
+
+import { useState } from "react";
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Download,
+} from "lucide-react";
+import { DiagnosticKind, ParseDiagnostics } from "@/types/billing";
+import {
+  DIAGNOSTIC_LABELS,
+  countIssues,
+  rejectedRowsToCSV,
+} from "@/lib/diagnostics";
+
+interface DataQualityPanelProps {
+  diagnostics: ParseDiagnostics[];
+}
+
+// Issues listed per file before the user has to download them
+const VISIBLE_ISSUES = 50;
+
+/**
+ * Summarizes rows that were skipped or look suspicious while parsing, with
+ * a download of the rejected rows for each file
+ */
+export function DataQualityPanel({ diagnostics }: DataQualityPanelProps) {
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const files = diagnostics.filter((file) => countIssues([file]) > 0);
+  if (files.length === 0) return null;
+
+  const rejectedRows = files.reduce((sum, file) => sum + file.rejectedRows, 0);
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-xl p-6 mb-8 text-left">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center text-lg font-semibold">
+          <AlertTriangle className="w-5 h-5 text-yellow-400 mr-2" />
+          Data Quality
+        </h3>
+        <p className="text-sm text-gray-400">
+          {rejectedRows.toLocaleString()} rows rejected ·{" "}
+          {countIssues(files).toLocaleString()} issues found
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        {files.map((file, index) => {
+          const key = `${file.fileName}-${index}`;
+          const isExpanded = expanded === key;
+          const kinds = Object.keys(file.counts) as DiagnosticKind[];
+
+          return (
+            <div key={key} className="border border-gray-700 rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <button
+                  onClick={() => setExpanded(isExpanded ? null : key)}
+                  className="flex items-center text-white font-medium min-w-0"
+                >
+                  {isExpanded ? (
+                    <ChevronDown className="w-4 h-4 mr-1 flex-shrink-0" />
+                  ) : (
+                    <ChevronRight className="w-4 h-4 mr-1 flex-shrink-0" />
+                  )}
+                  <span className="truncate" title={file.fileName}>
+                    {file.fileName || "Uploaded file"}
+                  </span>
+                </button>
+                <button
+                  onClick={() =>
+                    downloadCSV(
+                      `${file.fileName.replace(/\.[^.]+$/, "")}-rejected.csv`,
+                      rejectedRowsToCSV(file)
+                    )
+                  }
+                  disabled={file.rejectedRows === 0}
+                  className="inline-flex items-center ml-4 text-sm text-blue-400 hover:text-blue-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  <Download className="w-4 h-4 mr-1" />
+                  Rejected rows
+                </button>
+              </div>
+
+              <div className="flex flex-wrap gap-2 mt-3">
+                {kinds.map((kind) => (
+                  <span
+                    key={kind}
+                    className="px-2 py-1 text-xs rounded-md bg-gray-700/50 text-gray-300"
+                  >
+                    {DIAGNOSTIC_LABELS[kind]}:{" "}
+                    {(file.counts[kind] || 0).toLocaleString()}
+                  </span>
+                ))}
+              </div>
+
+              {isExpanded && (
+                <div className="overflow-x-auto mt-4">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b border-gray-700">
+                        <th className="text-left py-2 px-2 text-gray-300">
+                          Line
+                        </th>
+                        <th className="text-left py-2 px-2 text-gray-300">
+                          Issue
+                        </th>
+                        <th className="text-left py-2 px-2 text-gray-300">
+                          Details
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {file.issues.slice(0, VISIBLE_ISSUES).map((issue, i) => (
+                        <tr
+                          key={`${issue.line}-${issue.kind}-${i}`}
+                          className="border-b border-gray-800"
+                        >
+                          <td className="py-2 px-2 text-gray-400">
+                            {issue.line}
+                          </td>
+                          <td
+                            className={`py-2 px-2 ${
+                              issue.rejected ? "text-red-300" : "text-yellow-300"
+                            }`}
+                          >
+                            {DIAGNOSTIC_LABELS[issue.kind]}
+                          </td>
+                          <td className="py-2 px-2 text-gray-300">
+                            {issue.message}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {countIssues([file]) > VISIBLE_ISSUES && (
+                    <p className="text-xs text-gray-500 mt-2">
+                      Showing the first {VISIBLE_ISSUES} issues; download
+                      the rejected rows to review all{" "}
+                      {file.rejectedRows.toLocaleString()} of them
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+function downloadCSV(fileName: string, content: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: "text/csv" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
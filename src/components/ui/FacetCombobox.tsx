@@ -0,0 +1,212 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { Check, ChevronDown, Search, X } from "lucide-react";
+import { DimensionFilter, FacetCount } from "@/lib/dataProcessor";
+
+interface FacetComboboxProps {
+  label: string;
+  allLabel: string; // Summary shown when nothing is selected
+  options: FacetCount[];
+  filter: DimensionFilter;
+  onChange: (filter: DimensionFilter) => void;
+}
+
+// Options rendered at once; searching narrows down the rest
+const MAX_VISIBLE_OPTIONS = 200;
+
+/**
+ * Searchable multi-select for one filter dimension. Values are either
+ * included or excluded, and each shows how many rows it would match.
+ */
+export function FacetCombobox({
+  label,
+  allLabel,
+  options,
+  filter,
+  onChange,
+}: FacetComboboxProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [mode, setMode] = useState<"include" | "exclude">(
+    filter.exclude.length > 0 && filter.include.length === 0
+      ? "exclude"
+      : "include"
+  );
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the combobox
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleMouseDown);
+    return () => document.removeEventListener("mousedown", handleMouseDown);
+  }, [isOpen]);
+
+  // Selected values stay listed even when other filters leave them no rows
+  const counts = new Map(options.map((option) => [option.value, option.count]));
+  const values = Array.from(
+    new Set([
+      ...filter.include,
+      ...filter.exclude,
+      ...options.map((option) => option.value),
+    ])
+  );
+  const query = search.trim().toLowerCase();
+  const matching = query
+    ? values.filter((value) => value.toLowerCase().includes(query))
+    : values;
+
+  // Selecting a value in one mode takes it out of the other
+  const toggle = (value: string) => {
+    const without = {
+      ...filter,
+      include: filter.include.filter((v) => v !== value),
+      exclude: filter.exclude.filter((v) => v !== value),
+    };
+    onChange(
+      filter[mode].includes(value)
+        ? without
+        : { ...without, [mode]: [...without[mode], value] }
+    );
+  };
+
+  // Patterns come from filter queries and can't be edited here
+  const patternCount =
+    (filter.includePatterns?.length || 0) +
+    (filter.excludePatterns?.length || 0);
+
+  const summary =
+    filter.include.length > 0
+      ? filter.include.length === 1
+        ? filter.include[0]
+        : `${filter.include.length} selected`
+      : filter.exclude.length > 0
+      ? `All except ${
+          filter.exclude.length === 1
+            ? filter.exclude[0]
+            : `${filter.exclude.length} values`
+        }`
+      : patternCount > 0
+      ? `${patternCount} pattern${patternCount === 1 ? "" : "s"}`
+      : allLabel;
+  const hasSelection =
+    filter.include.length + filter.exclude.length + patternCount > 0;
+
+  return (
+    <div className="space-y-2 relative" ref={containerRef}>
+      <label className="text-sm text-gray-400">{label}</label>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        <span
+          className={`truncate ${hasSelection ? "" : "text-gray-300"}`}
+          title={summary}
+        >
+          {summary}
+        </span>
+        <ChevronDown className="w-4 h-4 ml-2 flex-shrink-0 text-gray-400" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-20 mt-1 w-72 max-w-[90vw] bg-gray-800 border border-gray-600 rounded-md shadow-lg">
+          <div className="p-2 border-b border-gray-700 space-y-2">
+            <div className="flex items-center px-2 bg-gray-700/50 border border-gray-600 rounded-md">
+              <Search className="w-4 h-4 text-gray-400" />
+              <input
+                autoFocus
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder={`Search ${label.toLowerCase()}...`}
+                className="w-full px-2 py-1.5 bg-transparent text-white text-sm focus:outline-none"
+              />
+            </div>
+            <div className="flex items-center justify-between text-xs">
+              <div className="flex rounded-md overflow-hidden border border-gray-600">
+                {(["include", "exclude"] as const).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setMode(option)}
+                    className={`px-2 py-1 capitalize transition-colors ${
+                      mode === option
+                        ? "bg-blue-600 text-white"
+                        : "text-gray-300 hover:bg-gray-700"
+                    }`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+              {hasSelection && (
+                <button
+                  type="button"
+                  onClick={() => onChange({ include: [], exclude: [] })}
+                  className="inline-flex items-center text-blue-400 hover:text-blue-300"
+                >
+                  <X className="w-3 h-3 mr-1" />
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+
+          <ul className="max-h-64 overflow-y-auto py-1 text-sm">
+            {matching.slice(0, MAX_VISIBLE_OPTIONS).map((value) => {
+              const included = filter.include.includes(value);
+              const excluded = filter.exclude.includes(value);
+              return (
+                <li key={value}>
+                  <button
+                    type="button"
+                    onClick={() => toggle(value)}
+                    className="w-full flex items-center px-3 py-1.5 text-left hover:bg-gray-700/50"
+                  >
+                    <span
+                      className={`w-4 h-4 mr-2 flex-shrink-0 flex items-center justify-center rounded border ${
+                        included
+                          ? "bg-blue-600 border-blue-600"
+                          : excluded
+                          ? "bg-red-600 border-red-600"
+                          : "border-gray-500"
+                      }`}
+                    >
+                      {included && <Check className="w-3 h-3" />}
+                      {excluded && <X className="w-3 h-3" />}
+                    </span>
+                    <span
+                      className={`flex-1 truncate ${
+                        excluded ? "line-through text-gray-400" : "text-white"
+                      }`}
+                      title={value}
+                    >
+                      {value}
+                    </span>
+                    <span className="ml-2 text-xs text-gray-500">
+                      {(counts.get(value) || 0).toLocaleString()}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+            {matching.length === 0 && (
+              <li className="px-3 py-2 text-gray-500">No matching values</li>
+            )}
+            {matching.length > MAX_VISIBLE_OPTIONS && (
+              <li className="px-3 py-2 text-xs text-gray-500">
+                {matching.length - MAX_VISIBLE_OPTIONS} more; refine the
+                search to see them
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
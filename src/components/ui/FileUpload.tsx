@@ -1,9 +1,51 @@
 "use client";
 
-import { useCallback, useState } from "react";
-import { Upload, FileText, AlertCircle, CheckCircle } from "lucide-react";
-import { processFile } from "@/lib/fileParser";
-import { GitHubBillingReport } from "@/types/billing";
+import { useCallback, useRef, useState } from "react";
+import {
+  Upload,
+  FileText,
+  AlertCircle,
+  CheckCircle,
+  Clock,
+  X,
+} from "lucide-react";
+import { ColumnMappingPreview } from "@/components/ui/ColumnMappingPreview";
+import { DataQualityPanel } from "@/components/ui/DataQualityPanel";
+import { UsageApiFetch } from "@/components/ui/UsageApiFetch";
+import {
+  parseFileInWorker,
+  previewFileInWorker,
+} from "@/lib/reportParserClient";
+import { loadCategorizationRules } from "@/lib/categorizationRules";
+import { loadBillingCycleStartDay } from "@/lib/billingCycle";
+import { mergeReports } from "@/lib/reportMerger";
+import { ReportPreview } from "@/lib/fileParser";
+import { ColumnMapping } from "@/lib/reportFormats";
+import { SUPPORTED_EXTENSIONS } from "@/lib/inputReaders";
+import {
+  getHeaderSignature,
+  loadColumnMapping,
+  saveColumnMapping,
+} from "@/lib/columnMappings";
+import {
+  GitHubBillingReport,
+  ParseDiagnostics,
+  ParseProgress,
+  ReportSource,
+} from "@/types/billing";
+
+interface FileStatus {
+  name: string;
+  state: "pending" | "parsing" | "done" | "error";
+  rows?: number;
+  error?: string;
+}
+
+interface MappingRequest {
+  preview: ReportPreview;
+  fileNames: string[];
+  resolve: (mapping: ColumnMapping | null) => void;
+}
 
 interface FileUploadProps {
   onDataLoaded: (data: GitHubBillingReport) => void;
@@ -14,33 +56,181 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [fileStatuses, setFileStatuses] = useState<FileStatus[]>([]);
+  const [failedDiagnostics, setFailedDiagnostics] = useState<
+    ParseDiagnostics[]
+  >([]);
+  const [mappingRequest, setMappingRequest] = useState<MappingRequest | null>(
+    null
+  );
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const updateFileStatus = useCallback(
+    (index: number, changes: Partial<FileStatus>) => {
+      setFileStatuses((prev) =>
+        prev.map((status, i) =>
+          i === index ? { ...status, ...changes } : status
+        )
+      );
+    },
+    []
+  );
+
+  // Resolves once the user confirms or cancels the column mapping preview
+  const requestColumnMapping = useCallback(
+    (preview: ReportPreview, fileNames: string[]) =>
+      new Promise<ColumnMapping | null>((resolve) =>
+        setMappingRequest({ preview, fileNames, resolve })
+      ),
+    []
+  );
+
+  const resolveMappingRequest = useCallback(
+    (mapping: ColumnMapping | null) => {
+      mappingRequest?.resolve(mapping);
+      setMappingRequest(null);
+    },
+    [mappingRequest]
+  );
+
+  const handleFiles = useCallback(
+    async (files: File[]) => {
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
 
-  const handleFile = useCallback(
-    async (file: File) => {
       setIsProcessing(true);
       setError(null);
       setSuccess(null);
+      setFailedDiagnostics([]);
+      setFileStatuses(
+        files.map((file) => ({ name: file.name, state: "pending" }))
+      );
+
+      const rules = loadCategorizationRules();
+      const billingCycleStartDay = loadBillingCycleStartDay();
+      const reports: GitHubBillingReport[] = [];
+      const failures: ReportSource[] = [];
+      const diagnostics: ParseDiagnostics[] = [];
 
       try {
-        const result = await processFile(file);
+        // Files that can't be previewed fail with a proper error when
+        // parsed. One at a time, as a preview may decode a whole file.
+        const previews: (ReportPreview | null)[] = [];
+        for (const file of files) {
+          previews.push(
+            await previewFileInWorker(file, controller.signal).catch(() => {
+              controller.signal.throwIfAborted();
+              return null;
+            })
+          );
+        }
+        const signatures = previews.map((preview) =>
+          preview ? getHeaderSignature(preview.header) : null
+        );
+
+        // Review each distinct header once, unless its mapping is remembered
+        const mappings = new Map<string, ColumnMapping>();
+        for (const [index, preview] of previews.entries()) {
+          const signature = signatures[index];
+          if (!preview || !signature || mappings.has(signature)) continue;
+
+          let mapping = loadColumnMapping(preview.header);
+          if (!mapping) {
+            mapping = await requestColumnMapping(
+              preview,
+              files
+                .filter((_, i) => signatures[i] === signature)
+                .map((file) => file.name)
+            );
+            if (!mapping) {
+              setError("Upload cancelled");
+              setFileStatuses([]);
+              return;
+            }
+            saveColumnMapping(preview.header, mapping);
+          }
+          mappings.set(signature, mapping);
+        }
 
-        if (result.success && result.data) {
-          setSuccess(
-            `Successfully loaded ${result.data.data.length} months of billing data`
+        // Parse one file at a time to keep memory use bounded
+        for (const [index, file] of files.entries()) {
+          const signature = signatures[index];
+          updateFileStatus(index, { state: "parsing" });
+          setProgress({ rowsParsed: 0, bytesRead: 0, totalBytes: file.size });
+
+          const result = await parseFileInWorker(file, {
+            rules,
+            columnMapping: signature ? mappings.get(signature) : undefined,
+            billingCycleStartDay,
+            signal: controller.signal,
+            onProgress: setProgress,
+          });
+          if (result.diagnostics) diagnostics.push(result.diagnostics);
+
+          if (result.success && result.data) {
+            reports.push(result.data);
+            updateFileStatus(index, {
+              state: "done",
+              rows: result.data.sources?.[0]?.rowCount,
+            });
+          } else {
+            const message = result.error || "Failed to process file";
+            failures.push({
+              fileName: file.name,
+              rowCount: 0,
+              duplicateCount: 0,
+              period: { start: "", end: "" },
+              organizations: [],
+              error: message,
+            });
+            updateFileStatus(index, { state: "error", error: message });
+          }
+        }
+
+        if (reports.length === 0) {
+          setError(
+            files.length === 1
+              ? failures[0]?.error || "Failed to process file"
+              : "None of the selected files could be processed"
           );
-          onDataLoaded(result.data);
-        } else {
-          setError(result.error || "Failed to process file");
+          setFailedDiagnostics(diagnostics);
+          return;
         }
+
+        const report =
+          files.length === 1
+            ? reports[0]
+            : mergeReports(reports, failures, billingCycleStartDay);
+
+        setSuccess(
+          `Successfully loaded ${report.data.length} months of billing data`
+        );
+        onDataLoaded({ ...report, diagnostics });
       } catch (err) {
-        setError("An unexpected error occurred while processing the file");
+        if (controller.signal.aborted) {
+          setError("Upload cancelled");
+        } else {
+          setError("An unexpected error occurred while processing the file");
+        }
       } finally {
+        abortControllerRef.current = null;
         setIsProcessing(false);
+        setProgress(null);
       }
     },
-    [onDataLoaded]
+    [onDataLoaded, updateFileStatus, requestColumnMapping]
   );
 
+  const handleCancel = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const progressPercent =
+    progress && progress.totalBytes > 0
+      ? Math.min(100, (progress.bytesRead / progress.totalBytes) * 100)
+      : 0;
+
   const handleDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
@@ -48,10 +238,10 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
 
       const files = Array.from(e.dataTransfer.files);
       if (files.length > 0) {
-        handleFile(files[0]);
+        handleFiles(files);
       }
     },
-    [handleFile]
+    [handleFiles]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
@@ -68,10 +258,12 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const files = e.target.files;
       if (files && files.length > 0) {
-        handleFile(files[0]);
+        handleFiles(Array.from(files));
       }
+      // Allow selecting the same files again
+      e.target.value = "";
     },
-    [handleFile]
+    [handleFiles]
   );
 
   return (
@@ -92,7 +284,8 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
       >
         <input
           type="file"
-          accept=".csv"
+          accept={SUPPORTED_EXTENSIONS.join(",")}
+          multiple
           onChange={handleFileSelect}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           disabled={isProcessing}
@@ -118,20 +311,112 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
 
           <div>
             <p className="text-lg font-medium text-white mb-2">
-              {isProcessing
+              {mappingRequest
+                ? "Review the column mapping below"
+                : isProcessing
                 ? "Processing file..."
                 : "Upload your GitHub billing report"}
             </p>
             <p className="text-sm text-gray-400">
-              Drag and drop your CSV file here, or click to browse
+              Drag and drop one or more export files here, or click to browse
             </p>
             <p className="text-xs text-gray-500 mt-2">
-              Only CSV format is supported
+              CSV, JSON and XLSX exports are supported, optionally as .gz or
+              .zip
             </p>
           </div>
         </div>
       </div>
 
+      <UsageApiFetch
+        disabled={isProcessing || mappingRequest !== null}
+        onFetched={(file) => handleFiles([file])}
+        onError={(message) => {
+          setSuccess(null);
+          setError(message);
+        }}
+      />
+
+      {mappingRequest && (
+        <ColumnMappingPreview
+          key={getHeaderSignature(mappingRequest.preview.header)}
+          preview={mappingRequest.preview}
+          fileNames={mappingRequest.fileNames}
+          onConfirm={resolveMappingRequest}
+          onCancel={() => resolveMappingRequest(null)}
+        />
+      )}
+
+      {/* Files are previewed before parsing reports progress */}
+      {isProcessing && !mappingRequest && (
+        <div className="mt-4 p-4 bg-gray-800/50 border border-gray-700 rounded-lg">
+          <div className="flex items-center justify-between mb-2 text-sm">
+            <span className="text-gray-300">
+              {progress ? (
+                <>
+                  {progress.rowsParsed.toLocaleString()} rows parsed ·{" "}
+                  {formatBytes(progress.bytesRead)} of{" "}
+                  {formatBytes(progress.totalBytes)}
+                </>
+              ) : (
+                "Reading files..."
+              )}
+            </span>
+            <button
+              onClick={handleCancel}
+              className="inline-flex items-center text-gray-400 hover:text-white transition-colors"
+            >
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </button>
+          </div>
+          <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+            {progress ? (
+              <div
+                className="h-full bg-green-400 transition-all"
+                style={{ width: `${progressPercent}%` }}
+              />
+            ) : (
+              <div className="h-full w-full bg-green-400/60 animate-pulse" />
+            )}
+          </div>
+        </div>
+      )}
+
+      {fileStatuses.length > 1 && (
+        <ul className="mt-4 p-4 bg-gray-800/50 border border-gray-700 rounded-lg space-y-2 text-sm text-left">
+          {fileStatuses.map((file, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center">
+              {file.state === "done" ? (
+                <CheckCircle className="w-4 h-4 text-green-400 mr-2 flex-shrink-0" />
+              ) : file.state === "error" ? (
+                <AlertCircle className="w-4 h-4 text-red-400 mr-2 flex-shrink-0" />
+              ) : file.state === "parsing" ? (
+                <div className="w-4 h-4 mr-2 flex-shrink-0 border-2 border-green-400 border-t-transparent rounded-full animate-spin" />
+              ) : (
+                <Clock className="w-4 h-4 text-gray-500 mr-2 flex-shrink-0" />
+              )}
+              <span className="text-gray-300 flex-1 truncate" title={file.name}>
+                {file.name}
+              </span>
+              <span
+                className={`ml-3 text-xs ${
+                  file.state === "error" ? "text-red-300" : "text-gray-500"
+                }`}
+              >
+                {file.state === "done"
+                  ? `${(file.rows ?? 0).toLocaleString()} rows`
+                  : file.state === "error"
+                  ? file.error
+                  : file.state === "parsing"
+                  ? "Parsing..."
+                  : "Waiting"}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
       {error && (
         <div className="mt-4 p-4 bg-red-900/20 border border-red-700 rounded-lg flex items-center space-x-3">
           <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0" />
@@ -139,6 +424,12 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
         </div>
       )}
 
+      {failedDiagnostics.length > 0 && (
+        <div className="mt-4">
+          <DataQualityPanel diagnostics={failedDiagnostics} />
+        </div>
+      )}
+
       {success && (
         <div className="mt-4 p-4 bg-green-900/20 border border-green-700 rounded-lg flex items-center space-x-3">
           <CheckCircle className="w-5 h-5 text-green-400 flex-shrink-0" />
@@ -155,3 +446,9 @@ export function FileUpload({ onDataLoaded }: FileUploadProps) {
     </div>
   );
 }
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
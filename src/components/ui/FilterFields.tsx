@@ -0,0 +1,204 @@
+"use client";
+
+import { useMemo } from "react";
+import { X } from "lucide-react";
+import { FacetCombobox } from "@/components/ui/FacetCombobox";
+import { FilterQueryInput } from "@/components/ui/FilterQueryInput";
+import { ColumnarDataset } from "@/lib/columnarDataset";
+import {
+  FILTER_DIMENSIONS,
+  FacetCount,
+  FilterDimension,
+} from "@/lib/dataProcessor";
+import {
+  FilterState,
+  getFilterChips,
+  removeFilter,
+  toDataFilterOptions,
+} from "@/lib/filters";
+import { DEFAULT_BILLING_CYCLE_START_DAY } from "@/lib/billingCycle";
+import {
+  DATE_RANGE_PRESETS,
+  DateRangePresetId,
+  findDateRangePreset,
+  getPresetRange,
+} from "@/lib/dateRangePresets";
+
+interface FilterFieldsProps {
+  dataset: ColumnarDataset; // Rows the options are drawn from
+  filters: FilterState;
+  onChange: (filters: FilterState) => void;
+  billingCycleStartDay?: number; // Where date presets start months
+}
+
+const inputClassName =
+  "w-full px-3 py-2 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+const DIMENSION_FIELDS: {
+  dimension: FilterDimension;
+  label: string;
+  allLabel: string;
+}[] = [
+  {
+    dimension: "organization",
+    label: "Organization",
+    allLabel: "All Organizations",
+  },
+  {
+    dimension: "costCenter",
+    label: "Cost Center",
+    allLabel: "All Cost Centers",
+  },
+  {
+    dimension: "repository",
+    label: "Repository",
+    allLabel: "All Repositories",
+  },
+  { dimension: "sku", label: "SKU", allLabel: "All SKUs" },
+];
+
+/** Date range inputs and a multi-select for each filter dimension */
+export function FilterFields({
+  dataset,
+  filters,
+  onChange,
+  billingCycleStartDay = DEFAULT_BILLING_CYCLE_START_DAY,
+}: FilterFieldsProps) {
+  // Each dimension's options reflect the filters on the other dimensions
+  const facets = useMemo(() => {
+    const options = toDataFilterOptions(filters);
+    return Object.fromEntries(
+      FILTER_DIMENSIONS.map((dimension) => [
+        dimension,
+        dataset.getFacetCounts(options, dimension),
+      ])
+    ) as Record<FilterDimension, FacetCount[]>;
+  }, [dataset, filters]);
+
+  // Every known value, for autocompleting queries
+  const values = useMemo(
+    () =>
+      Object.fromEntries(
+        FILTER_DIMENSIONS.map((dimension) => [
+          dimension,
+          dataset.getUniqueValues(dimension),
+        ])
+      ),
+    [dataset]
+  );
+
+  const { start: minDate, end: maxDate } = dataset.getDateRange();
+
+  const activePreset = findDateRangePreset(
+    filters.dateRange,
+    maxDate,
+    billingCycleStartDay
+  );
+
+  return (
+    <div className="space-y-4">
+      <FilterQueryInput filters={filters} onChange={onChange} values={values} />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+        {/* Date Range */}
+        <div className="space-y-2">
+          <label className="text-sm text-gray-400">Date Range</label>
+          <div className="space-y-2">
+            <select
+              value={activePreset ?? ""}
+              onChange={(e) =>
+                e.target.value &&
+                onChange({
+                  ...filters,
+                  dateRange: getPresetRange(
+                    e.target.value as DateRangePresetId,
+                    maxDate,
+                    billingCycleStartDay
+                  ),
+                })
+              }
+              className={inputClassName}
+            >
+              <option value="" disabled>
+                Custom range
+              </option>
+              {DATE_RANGE_PRESETS.map((preset) => (
+                <option key={preset.id} value={preset.id}>
+                  {preset.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={filters.dateRange.start}
+              min={minDate}
+              max={maxDate}
+              onChange={(e) =>
+                onChange({
+                  ...filters,
+                  dateRange: { ...filters.dateRange, start: e.target.value },
+                })
+              }
+              className={inputClassName}
+            />
+            <input
+              type="date"
+              value={filters.dateRange.end}
+              min={minDate}
+              max={maxDate}
+              onChange={(e) =>
+                onChange({
+                  ...filters,
+                  dateRange: { ...filters.dateRange, end: e.target.value },
+                })
+              }
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        {DIMENSION_FIELDS.map(({ dimension, label, allLabel }) => (
+          <FacetCombobox
+            key={dimension}
+            label={label}
+            allLabel={allLabel}
+            options={facets[dimension]}
+            filter={filters[dimension]}
+            onChange={(filter) => onChange({ ...filters, [dimension]: filter })}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+interface FilterChipsProps {
+  filters: FilterState;
+  onChange: (filters: FilterState) => void;
+}
+
+/** The active filters as chips that remove their filter when clicked */
+export function FilterChips({ filters, onChange }: FilterChipsProps) {
+  const chips = getFilterChips(filters);
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {chips.map((chip) => (
+        <button
+          key={chip.key}
+          onClick={() => onChange(removeFilter(filters, chip))}
+          title="Remove filter"
+          className={`inline-flex items-center px-2 py-1 text-xs rounded-full transition-colors ${
+            chip.kind === "dimension" && chip.mode.startsWith("exclude")
+              ? "bg-red-500/20 text-red-300 hover:bg-red-500/30"
+              : "bg-blue-500/20 text-blue-300 hover:bg-blue-500/30"
+          }`}
+        >
+          {chip.label}
+          <X className="w-3 h-3 ml-1" />
+        </button>
+      ))}
+    </div>
+  );
+}
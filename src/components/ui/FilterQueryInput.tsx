@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { AlertCircle, Search } from "lucide-react";
+import { FilterDimension } from "@/lib/dataProcessor";
+import { FilterState } from "@/lib/filters";
+import {
+  QueryError,
+  QuerySuggestions,
+  formatFilterQuery,
+  getQuerySuggestions,
+  parseFilterQuery,
+} from "@/lib/filterQuery";
+
+interface FilterQueryInputProps {
+  filters: FilterState;
+  onChange: (filters: FilterState) => void;
+  values: Partial<Record<FilterDimension, string[]>>; // For autocomplete
+}
+
+/**
+ * Search box for filter queries. It shows the current filters as a query
+ * and applies an edited query on Enter or when it loses focus.
+ */
+export function FilterQueryInput({
+  filters,
+  onChange,
+  values,
+}: FilterQueryInputProps) {
+  const [text, setText] = useState(() => formatFilterQuery(filters));
+  const [error, setError] = useState<QueryError | null>(null);
+  const [completion, setCompletion] = useState<QuerySuggestions | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Follow changes made through the dropdowns, keeping the user's own
+  // wording when it already means the same filters
+  useEffect(() => {
+    setText((current) => {
+      const parsed = parseFilterQuery(current);
+      const formatted = formatFilterQuery(filters);
+      return parsed.filters && formatFilterQuery(parsed.filters) === formatted
+        ? current
+        : formatted;
+    });
+    setError(null);
+  }, [filters]);
+
+  const updateCompletion = (query: string, cursor: number) => {
+    const next = getQuerySuggestions(query, cursor, values);
+    setCompletion(next.suggestions.length > 0 ? next : null);
+    setHighlighted(0);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const query = e.target.value;
+    setText(query);
+    setError(parseFilterQuery(query).error);
+    updateCompletion(query, e.target.selectionStart ?? query.length);
+  };
+
+  const apply = () => {
+    const parsed = parseFilterQuery(text);
+    setError(parsed.error);
+    if (
+      parsed.filters &&
+      formatFilterQuery(parsed.filters) !== formatFilterQuery(filters)
+    ) {
+      onChange(parsed.filters);
+    }
+  };
+
+  const accept = (index: number) => {
+    if (!completion) return;
+    const suggestion = completion.suggestions[index];
+    // Leave the cursor after a space once a value is complete
+    const suffix = /[:=<>]$/.test(suggestion.text) ? "" : " ";
+    const query =
+      text.slice(0, completion.start) +
+      suggestion.text +
+      suffix +
+      text.slice(completion.end).trimStart();
+    const cursor = completion.start + suggestion.text.length + suffix.length;
+
+    setText(query);
+    setError(parseFilterQuery(query).error);
+    updateCompletion(query, cursor);
+    requestAnimationFrame(() =>
+      inputRef.current?.setSelectionRange(cursor, cursor)
+    );
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const count = completion?.suggestions.length ?? 0;
+    if (e.key === "ArrowDown" && count > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted + 1) % count);
+    } else if (e.key === "ArrowUp" && count > 0) {
+      e.preventDefault();
+      setHighlighted((highlighted - 1 + count) % count);
+    } else if ((e.key === "Tab" || e.key === "Enter") && count > 0) {
+      e.preventDefault();
+      accept(highlighted);
+    } else if (e.key === "Enter") {
+      apply();
+    } else if (e.key === "Escape") {
+      setCompletion(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className={`flex items-center px-3 bg-gray-700/50 border rounded-md focus-within:ring-2 focus-within:ring-blue-500 ${
+          error ? "border-red-500" : "border-gray-600"
+        }`}
+      >
+        <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+        <input
+          ref={inputRef}
+          value={text}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onBlur={() => {
+            setCompletion(null);
+            apply();
+          }}
+          placeholder="Filter query, e.g. org:acme repo:~^svc- -cc:platform cost>5 date>=2025-08-01"
+          spellCheck={false}
+          className="w-full px-2 py-2 bg-transparent text-white text-sm font-mono focus:outline-none"
+        />
+      </div>
+
+      {completion && (
+        <ul className="absolute z-20 mt-1 w-full max-w-md bg-gray-800 border border-gray-600 rounded-md shadow-lg py-1 text-sm">
+          {completion.suggestions.map((suggestion, index) => (
+            <li key={suggestion.text}>
+              <button
+                type="button"
+                // Keep focus in the input so it doesn't apply on blur
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => accept(index)}
+                className={`w-full flex items-center justify-between px-3 py-1.5 text-left ${
+                  index === highlighted ? "bg-gray-700" : "hover:bg-gray-700/50"
+                }`}
+              >
+                <span className="font-mono text-white truncate">
+                  {suggestion.label}
+                </span>
+                <span className="ml-3 text-xs text-gray-500 flex-shrink-0">
+                  {suggestion.detail}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && (
+        <p className="mt-2 flex items-start text-xs text-red-300">
+          <AlertCircle className="w-4 h-4 text-red-400 mr-1 flex-shrink-0" />
+          <span>
+            {error.message}
+            {text.slice(error.start, error.end) && (
+              <>
+                {" "}
+                at{" "}
+                <code className="px-1 rounded bg-red-900/40">
+                  {text.slice(error.start, error.end)}
+                </code>
+              </>
+            )}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+"use client";
+
+import { Filter } from "lucide-react";
+import { FilterChips, FilterFields } from "@/components/ui/FilterFields";
+import { EMPTY_FILTERS, FilterState, hasActiveFilters } from "@/lib/filters";
+import { ColumnarDataset } from "@/lib/columnarDataset";
+import { MAX_BILLING_CYCLE_START_DAY } from "@/lib/billingCycle";
+import { GRANULARITIES, Granularity } from "@/lib/granularity";
+
+interface GlobalFilterBarProps {
+  dataset: ColumnarDataset; // Rows of every service
+  filters: FilterState;
+  onChange: (filters: FilterState) => void;
+  billingCycleStartDay: number;
+  onBillingCycleStartDayChange: (day: number) => void;
+  granularity: Granularity;
+  onGranularityChange: (granularity: Granularity) => void;
+}
+
+const selectClassName =
+  "ml-2 px-2 py-1 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+const START_DAYS = Array.from(
+  { length: MAX_BILLING_CYCLE_START_DAY },
+  (_, i) => i + 1
+);
+
+/**
+ * Filters applied to every tab that doesn't override them, along with the
+ * time granularity of every chart and the day billing periods start on
+ */
+export function GlobalFilterBar({
+  dataset,
+  filters,
+  onChange,
+  billingCycleStartDay,
+  onBillingCycleStartDayChange,
+  granularity,
+  onGranularityChange,
+}: GlobalFilterBarProps) {
+  return (
+    <div className="bg-gray-800/30 rounded-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center text-lg font-semibold">
+          <Filter className="w-5 h-5 text-gray-400 mr-2" />
+          Filters
+          <span className="ml-2 text-sm font-normal text-gray-400">
+            Applied to all tabs
+          </span>
+        </h3>
+        <div className="flex items-center space-x-4">
+          <label className="flex items-center text-sm text-gray-400">
+            Group by
+            <select
+              value={granularity}
+              onChange={(e) =>
+                onGranularityChange(e.target.value as Granularity)
+              }
+              className={selectClassName}
+            >
+              {GRANULARITIES.map(({ id, label }) => (
+                <option key={id} value={id}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center text-sm text-gray-400">
+            Billing cycle starts on day
+            <select
+              value={billingCycleStartDay}
+              onChange={(e) =>
+                onBillingCycleStartDayChange(Number(e.target.value))
+              }
+              className={selectClassName}
+            >
+              {START_DAYS.map((day) => (
+                <option key={day} value={day}>
+                  {day}
+                </option>
+              ))}
+            </select>
+          </label>
+          {hasActiveFilters(filters) && (
+            <button
+              onClick={() => onChange(EMPTY_FILTERS)}
+              className="text-sm text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              Reset Filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      <FilterFields
+        dataset={dataset}
+        filters={filters}
+        onChange={onChange}
+        billingCycleStartDay={billingCycleStartDay}
+      />
+
+      {hasActiveFilters(filters) && (
+        <div className="mt-4">
+          <FilterChips filters={filters} onChange={onChange} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { AlertCircle, FileText } from "lucide-react";
+import { ReportSource } from "@/types/billing";
+import { getReportFormat } from "@/lib/reportFormats";
+
+interface ReportSourcesSummaryProps {
+  sources: ReportSource[];
+}
+
+/**
+ * Shows which uploaded files contributed which date ranges and
+ * organizations to a merged report
+ */
+export function ReportSourcesSummary({ sources }: ReportSourcesSummaryProps) {
+  const totalDuplicates = sources.reduce(
+    (sum, source) => sum + source.duplicateCount,
+    0
+  );
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-xl p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold">Source Files</h3>
+        <p className="text-sm text-gray-400">
+          {sources.length} files merged
+          {totalDuplicates > 0 &&
+            ` · ${totalDuplicates.toLocaleString()} duplicate rows removed`}
+        </p>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-700">
+              <th className="text-left py-3 px-4 text-gray-300">File</th>
+              <th className="text-left py-3 px-4 text-gray-300">Date Range</th>
+              <th className="text-left py-3 px-4 text-gray-300">
+                Organizations
+              </th>
+              <th className="text-right py-3 px-4 text-gray-300">Rows</th>
+              <th className="text-right py-3 px-4 text-gray-300">
+                Duplicates
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {sources.map((source, index) => (
+              <tr
+                key={`${source.fileName}-${index}`}
+                className="border-b border-gray-800"
+              >
+                <td className="py-3 px-4">
+                  <div className="flex items-center">
+                    {source.error ? (
+                      <AlertCircle className="w-4 h-4 text-red-400 mr-2 flex-shrink-0" />
+                    ) : (
+                      <FileText className="w-4 h-4 text-gray-400 mr-2 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-white truncate" title={source.fileName}>
+                        {source.fileName}
+                      </p>
+                      {source.format && (
+                        <p className="text-xs text-gray-500">
+                          {getReportFormat(source.format)?.label}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                </td>
+                {source.error ? (
+                  <td colSpan={4} className="py-3 px-4 text-red-300">
+                    {source.error}
+                  </td>
+                ) : (
+                  <>
+                    <td className="py-3 px-4 text-gray-300">
+                      {source.period.start} – {source.period.end}
+                    </td>
+                    <td
+                      className="py-3 px-4 text-gray-300 truncate max-w-xs"
+                      title={source.organizations.join(", ")}
+                    >
+                      {source.organizations.join(", ") || "—"}
+                    </td>
+                    <td className="text-right py-3 px-4 text-gray-300">
+                      {source.rowCount.toLocaleString()}
+                    </td>
+                    <td className="text-right py-3 px-4 text-gray-300">
+                      {source.duplicateCount.toLocaleString()}
+                    </td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
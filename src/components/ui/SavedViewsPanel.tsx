@@ -0,0 +1,181 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Bookmark, Download, Save, Trash2, Upload } from "lucide-react";
+import { formatFilterQuery } from "@/lib/filterQuery";
+import { ViewState, formatViewHash, parseViewHash } from "@/lib/viewState";
+import {
+  SavedView,
+  addSavedView,
+  exportSavedViews,
+  importSavedViews,
+} from "@/lib/savedViews";
+
+interface SavedViewsPanelProps {
+  views: SavedView[];
+  currentView: ViewState;
+  tabLabels: Record<string, string>;
+  onApply: (view: ViewState) => void;
+  onChange: (views: SavedView[]) => void;
+}
+
+/**
+ * Sidebar listing saved views. The current view can be saved under a name,
+ * and the list exported to or imported from a JSON file.
+ */
+export function SavedViewsPanel({
+  views,
+  currentView,
+  tabLabels,
+  onApply,
+  onChange,
+}: SavedViewsPanelProps) {
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const current = formatViewHash(currentView);
+  const trimmedName = name.trim();
+  const replacing = views.some((view) => view.name === trimmedName);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmedName) return;
+    onChange(addSavedView(views, trimmedName, currentView));
+    setName("");
+    setError(null);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(
+      new Blob([exportSavedViews(views)], { type: "application/json" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "saved-views.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ""; // Allow importing the same file again
+    if (!file) return;
+
+    try {
+      onChange(importSavedViews(views, await file.text()));
+      setError(null);
+    } catch (err) {
+      setError(
+        `Couldn't import ${file.name}: ${
+          err instanceof Error ? err.message : err
+        }`
+      );
+    }
+  };
+
+  return (
+    <div className="bg-gray-800/50 backdrop-blur-sm border border-gray-700 rounded-xl p-4">
+      <h3 className="flex items-center text-lg font-semibold mb-3">
+        <Bookmark className="w-5 h-5 text-gray-400 mr-2" />
+        Saved Views
+      </h3>
+
+      <form onSubmit={handleSave} className="flex space-x-2 mb-4">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name this view"
+          className="w-full min-w-0 px-2 py-1.5 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={!trimmedName}
+          title={replacing ? "Replace the saved view" : "Save the current view"}
+          className="px-2 rounded-md bg-green-600 text-white hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Save className="w-4 h-4" />
+        </button>
+      </form>
+
+      {views.length === 0 ? (
+        <p className="text-sm text-gray-500 mb-4">
+          Save the current tab, filters, breakdown and storage unit to come
+          back to them later.
+        </p>
+      ) : (
+        <ul className="space-y-1 mb-4">
+          {views.map((saved) => {
+            const view = parseViewHash(saved.view);
+            const query = formatFilterQuery(view.filters);
+            const isActive = saved.view === current;
+            return (
+              <li
+                key={saved.id}
+                className={`group flex items-start rounded-md ${
+                  isActive ? "bg-blue-600/20" : "hover:bg-gray-700/50"
+                }`}
+              >
+                <button
+                  type="button"
+                  onClick={() => onApply(view)}
+                  className="flex-1 min-w-0 px-2 py-1.5 text-left"
+                >
+                  <span className="block text-sm text-white truncate">
+                    {saved.name}
+                  </span>
+                  <span
+                    className="block text-xs text-gray-400 truncate"
+                    title={query}
+                  >
+                    {tabLabels[view.tab] || view.tab}
+                    {query && ` · ${query}`}
+                  </span>
+                </button>
+                <button
+                  type="button"
+                  onClick={() =>
+                    onChange(views.filter((v) => v.id !== saved.id))
+                  }
+                  title={`Delete ${saved.name}`}
+                  className="p-2 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex items-center space-x-4 text-sm">
+        <button
+          type="button"
+          onClick={handleExport}
+          disabled={views.length === 0}
+          className="inline-flex items-center text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Download className="w-4 h-4 mr-1" />
+          Export
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="inline-flex items-center text-blue-400 hover:text-blue-300 transition-colors"
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          className="hidden"
+        />
+      </div>
+
+      {error && <p className="mt-3 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+}
@@ -12,10 +12,29 @@ interface Tab {
 interface TabsProps {
   tabs: Tab[];
   defaultTab?: string;
+  activeTab?: string; // Makes the tabs controlled, together with onTabChange
+  onTabChange?: (id: string) => void;
 }
 
-export function Tabs({ tabs, defaultTab }: TabsProps) {
-  const [activeTab, setActiveTab] = useState(defaultTab || tabs[0]?.id);
+export function Tabs({
+  tabs,
+  defaultTab,
+  activeTab: controlledTab,
+  onTabChange,
+}: TabsProps) {
+  const [uncontrolledTab, setUncontrolledTab] = useState(
+    defaultTab || tabs[0]?.id
+  );
+  const requestedTab = controlledTab ?? uncontrolledTab;
+  // Fall back to the first tab when the requested one isn't available
+  const activeTab = tabs.some((tab) => tab.id === requestedTab)
+    ? requestedTab
+    : tabs[0]?.id;
+
+  const setActiveTab = (id: string) => {
+    setUncontrolledTab(id);
+    onTabChange?.(id);
+  };
 
   const activeTabContent = tabs.find((tab) => tab.id === activeTab)?.content;
 
@@ -0,0 +1,167 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { ChevronDown, ChevronRight, CloudDownload, X } from "lucide-react";
+import {
+  DEFAULT_API_BASE_URL,
+  UsageScope,
+  fetchUsageExport,
+} from "@/lib/usageApi";
+
+interface UsageApiFetchProps {
+  disabled?: boolean;
+  onFetched: (file: File) => void;
+  onError: (message: string) => void;
+}
+
+const inputClassName =
+  "w-full px-2 py-1.5 bg-gray-700/50 border border-gray-600 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent";
+
+/**
+ * Collapsible form that downloads usage from the billing usage API with a
+ * personal access token. The token is kept in component state only.
+ */
+export function UsageApiFetch({
+  disabled,
+  onFetched,
+  onError,
+}: UsageApiFetchProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isFetching, setIsFetching] = useState(false);
+  const [baseUrl, setBaseUrl] = useState(DEFAULT_API_BASE_URL);
+  const [scope, setScope] = useState<UsageScope>("organization");
+  const [name, setName] = useState("");
+  const [token, setToken] = useState("");
+  const [period, setPeriod] = useState(""); // YYYY-MM, empty for current
+  const abortController = useRef<AbortController | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const [year, month] = period.split("-").map(Number);
+
+    const controller = new AbortController();
+    abortController.current = controller;
+    setIsFetching(true);
+    try {
+      const file = await fetchUsageExport({
+        baseUrl: baseUrl.trim() || undefined,
+        token: token.trim(),
+        scope,
+        name: name.trim(),
+        year: year || undefined,
+        month: month || undefined,
+        signal: controller.signal,
+      });
+      onFetched(file);
+    } catch (err) {
+      // Cancelling isn't an error worth reporting
+      if (!controller.signal.aborted) {
+        onError(err instanceof Error ? err.message : "Failed to fetch usage");
+      }
+    } finally {
+      abortController.current = null;
+      setIsFetching(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-gray-800/50 border border-gray-700 rounded-lg text-left">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center p-4 text-sm font-medium text-gray-300 hover:text-white transition-colors"
+      >
+        {isOpen ? (
+          <ChevronDown className="w-4 h-4 mr-1" />
+        ) : (
+          <ChevronRight className="w-4 h-4 mr-1" />
+        )}
+        Fetch from the billing usage API
+      </button>
+
+      {isOpen && (
+        <form onSubmit={handleSubmit} className="px-4 pb-4 space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <label className="block text-sm">
+              <span className="block text-gray-300 mb-1">Account type</span>
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value as UsageScope)}
+                className={inputClassName}
+              >
+                <option value="organization">Organization</option>
+                <option value="enterprise">Enterprise</option>
+                <option value="user">User</option>
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="block text-gray-300 mb-1">Name</span>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="octo-org"
+                required
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="block text-gray-300 mb-1">Token</span>
+              <input
+                type="password"
+                value={token}
+                onChange={(e) => setToken(e.target.value)}
+                autoComplete="off"
+                required
+                className={inputClassName}
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="block text-gray-300 mb-1">Month</span>
+              <input
+                type="month"
+                value={period}
+                onChange={(e) => setPeriod(e.target.value)}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+          <label className="block text-sm">
+            <span className="block text-gray-300 mb-1">
+              API base URL (GitHub Enterprise Server or a mock)
+            </span>
+            <input
+              type="url"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              className={inputClassName}
+            />
+          </label>
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-gray-500">
+              The token is sent only to this URL and is never saved
+            </p>
+            <div className="flex items-center gap-2">
+              {isFetching && (
+                <button
+                  type="button"
+                  onClick={() => abortController.current?.abort()}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg text-gray-300 bg-gray-700/50 border border-gray-600 hover:bg-gray-600/50 transition-colors"
+                >
+                  <X className="w-4 h-4 mr-2" />
+                  Cancel
+                </button>
+              )}
+              <button
+                type="submit"
+                disabled={disabled || isFetching}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg bg-green-600 text-white hover:bg-green-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                <CloudDownload className="w-4 h-4 mr-2" />
+                {isFetching ? "Fetching..." : "Fetch usage"}
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { TimeBucket, getBucketStart } from "@/lib/dataProcessor";
+import {
+  DatasetRows,
+  GroupField,
+  MEASURES,
+  Measure,
+  RowSelection,
+} from "@/lib/columnarDataset";
+
+/**
+ * One aggregation behind every chart: rows grouped by time bucket and by a
+ * field, with every measure summed and the groups outside the top N
+ * folded into "Others". Sums run over the columns of the dataset, and
+ * results are cached per selection of rows, so charts drawing the same
+ * filtered rows share the work and agree on the numbers.
+ */
+
+export const OTHERS_LABEL = "Others";
+export const UNKNOWN_LABEL = "Unknown";
+
+// Keys of the groups that don't stand for a single value
+export const OTHERS_KEY = "others";
+export const UNKNOWN_KEY = "unknown";
+
+export interface MeasureTotals {
+  cost: number; // Net amount billed
+  quantity: number;
+  gross: number;
+  discount: number;
+}
+
+export interface GroupTotals extends MeasureTotals {
+  key: string; // Identifies the group in series and chart points
+  name: string; // The grouped value, or "Others" / "Unknown"
+}
+
+export interface BucketTotals extends MeasureTotals {
+  date: string; // First day of the bucket
+  groups: Record<string, MeasureTotals>; // By group key
+}
+
+export interface AggregationOptions {
+  groupBy?: GroupField; // Rows without a value group as "Unknown"
+  bucket?: TimeBucket;
+  billingCycleStartDay?: number; // For the "billingCycle" bucket
+  topN?: number; // Every group is kept when not set
+  rankBy?: Measure;
+}
+
+export interface Aggregation {
+  totals: MeasureTotals;
+  groups: GroupTotals[]; // Largest first, then "Others" if any were folded
+  groupCount: number; // Distinct non-empty values, before folding
+  series: BucketTotals[]; // Sorted by date
+}
+
+/** A point of a stacked chart: the measure per group key and in total */
+export type ChartPoint = { date: string; total: number } & Record<
+  string,
+  string | number
+>;
+
+/**
+ * Key of the group of a value. Values are prefixed so that one named like
+ * "Others" or "date" can't collide with the folded groups or with the
+ * other fields of a chart point.
+ */
+export function getGroupKey(value: string): string {
+  return value ? `value:${value}` : UNKNOWN_KEY;
+}
+
+const cache = new WeakMap<RowSelection, Map<string, Aggregation>>();
+
+function emptyTotals(): MeasureTotals {
+  return { cost: 0, quantity: 0, gross: 0, discount: 0 };
+}
+
+function addTotals(totals: MeasureTotals, other: MeasureTotals) {
+  totals.cost += other.cost;
+  totals.quantity += other.quantity;
+  totals.gross += other.gross;
+  totals.discount += other.discount;
+}
+
+function computeAggregation(
+  { dataset, selection }: DatasetRows,
+  options: AggregationOptions,
+): Aggregation {
+  const {
+    groupBy,
+    bucket = "day",
+    billingCycleStartDay,
+    topN,
+    rankBy = "cost",
+  } = options;
+
+  const totals = emptyTotals();
+  const groupTotals = new Map<string, GroupTotals>();
+  for (const measure of MEASURES) {
+    totals[measure] = dataset.sum(selection, measure);
+    if (!groupBy) continue;
+
+    dataset.groupBy(selection, groupBy, measure).forEach((total, value) => {
+      const key = getGroupKey(value);
+      let group = groupTotals.get(key);
+      if (!group) {
+        group = { key, name: value || UNKNOWN_LABEL, ...emptyTotals() };
+        groupTotals.set(key, group);
+      }
+      group[measure] = total;
+    });
+  }
+  const groupCount = groupBy ? dataset.countDistinct(selection, groupBy) : 0;
+
+  const ranked = Array.from(groupTotals.values()).sort(
+    (a, b) => b[rankBy] - a[rankBy],
+  );
+  const groups = topN === undefined ? ranked : ranked.slice(0, topN);
+  const kept = new Set(groups.map((group) => group.key));
+  if (groups.length < ranked.length) {
+    const others: GroupTotals = {
+      key: OTHERS_KEY,
+      name: OTHERS_LABEL,
+      ...emptyTotals(),
+    };
+    ranked.slice(groups.length).forEach((group) => addTotals(others, group));
+    groups.push(others);
+  }
+
+  // Dates are folded into their buckets once per date, not once per row
+  const buckets = new Map<string, BucketTotals>();
+  const getPoint = (date: string) => {
+    const start = getBucketStart(date, bucket, billingCycleStartDay);
+    let point = buckets.get(start);
+    if (!point) {
+      point = { date: start, ...emptyTotals(), groups: {} };
+      groups.forEach((group) => (point!.groups[group.key] = emptyTotals()));
+      buckets.set(start, point);
+    }
+    return point;
+  };
+
+  for (const measure of MEASURES) {
+    dataset.groupBy(selection, "date", measure).forEach((value, date) => {
+      getPoint(date)[measure] += value;
+    });
+    if (!groupBy) continue;
+
+    dataset
+      .groupByDate(selection, groupBy, measure)
+      .forEach((values, date) => {
+        const point = getPoint(date);
+        values.forEach((total, value) => {
+          const key = getGroupKey(value);
+          point.groups[kept.has(key) ? key : OTHERS_KEY][measure] += total;
+        });
+      });
+  }
+
+  const series = Array.from(buckets.values()).sort((a, b) =>
+    a.date.localeCompare(b.date),
+  );
+  return { totals, groups, groupCount, series };
+}
+
+/**
+ * Aggregate rows, reusing the result while the same rows are aggregated
+ * the same way. Callers should pass memoized selections, such as the
+ * filtered rows of a tab, for the cache to hit.
+ */
+export function aggregate(
+  rows: DatasetRows,
+  options: AggregationOptions = {},
+): Aggregation {
+  const key = JSON.stringify([
+    options.groupBy,
+    options.bucket,
+    options.billingCycleStartDay,
+    options.topN,
+    options.rankBy,
+  ]);
+  let results = cache.get(rows.selection);
+  if (!results) {
+    results = new Map();
+    cache.set(rows.selection, results);
+  }
+
+  let result = results.get(key);
+  if (!result) {
+    result = computeAggregation(rows, options);
+    results.set(key, result);
+  }
+  return result;
+}
+
+/**
+ * The series as chart points holding one measure, keyed by group key,
+ * with every group present in every point so stacks line up
+ */
+export function toChartPoints(
+  aggregation: Aggregation,
+  measure: Measure,
+): ChartPoint[] {
+  return aggregation.series.map((point) => {
+    const chartPoint: ChartPoint = { date: point.date, total: point[measure] };
+    aggregation.groups.forEach(({ key }) => {
+      chartPoint[key] = point.groups[key][measure];
+    });
+    return chartPoint;
+  });
+}
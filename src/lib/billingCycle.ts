@@ -0,0 +1,155 @@
+/**
+ * Billing periods that start on a configurable day of the month, such as
+ * an enterprise bill running from the 15th to the 14th. A start day of 1
+ * gives calendar months.
+ */
+
+export const DEFAULT_BILLING_CYCLE_START_DAY = 1;
+// Later days don't exist in every month
+export const MAX_BILLING_CYCLE_START_DAY = 28;
+
+const STORAGE_KEY = "githubreportsvisualizer.billingCycleStartDay";
+
+export interface BillingPeriod {
+  key: string; // YYYY-MM of the month the period starts in
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD, inclusive
+}
+
+function isValidStartDay(day: unknown): day is number {
+  return (
+    typeof day === "number" &&
+    Number.isInteger(day) &&
+    day >= 1 &&
+    day <= MAX_BILLING_CYCLE_START_DAY
+  );
+}
+
+export function loadBillingCycleStartDay(): number {
+  if (typeof localStorage === "undefined") {
+    return DEFAULT_BILLING_CYCLE_START_DAY;
+  }
+
+  const day = Number(localStorage.getItem(STORAGE_KEY));
+  return isValidStartDay(day) ? day : DEFAULT_BILLING_CYCLE_START_DAY;
+}
+
+export function saveBillingCycleStartDay(day: number) {
+  localStorage.setItem(STORAGE_KEY, String(day));
+}
+
+function toISODate(date: Date): string {
+  return date.toISOString().substring(0, 10);
+}
+
+/**
+ * Whether a date is a calendar day written YYYY-MM-DD, optionally followed
+ * by a time, which is how every date is compared and bucketed
+ */
+export function isISODate(date: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}(T|$)/.test(date)) return false;
+  const day = date.substring(0, 10);
+  const parsed = new Date(`${day}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && toISODate(parsed) === day;
+}
+
+export function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date.substring(0, 10)}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return toISODate(shifted);
+}
+
+/**
+ * The period starting on the start day of the given month, which may be
+ * outside 1-12 to step across years
+ */
+function periodStartingIn(
+  year: number,
+  month: number,
+  startDay: number,
+): BillingPeriod {
+  const start = new Date(Date.UTC(year, month - 1, startDay));
+  const next = new Date(Date.UTC(year, month, startDay));
+  next.setUTCDate(next.getUTCDate() - 1);
+  return {
+    key: toISODate(start).substring(0, 7),
+    start: toISODate(start),
+    end: toISODate(next),
+  };
+}
+
+/**
+ * The billing period a date (YYYY-MM-DD...) falls in. Throws a RangeError
+ * naming the date when it isn't in that format, which the parser reports
+ * as a rejected row.
+ */
+export function getBillingPeriod(
+  date: string,
+  startDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): BillingPeriod {
+  if (!isISODate(date)) {
+    throw new RangeError(`Invalid date "${date}", expected YYYY-MM-DD`);
+  }
+  const [year, month, day] = date.substring(0, 10).split("-").map(Number);
+  return periodStartingIn(year, day >= startDay ? month : month - 1, startDay);
+}
+
+/** The period with a key from `getBillingPeriod` */
+export function getBillingPeriodByKey(
+  key: string,
+  startDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): BillingPeriod {
+  const [year, month] = key.split("-").map(Number);
+  return periodStartingIn(year, month, startDay);
+}
+
+/** The period a number of periods before or after another */
+export function shiftBillingPeriod(
+  period: BillingPeriod,
+  offset: number,
+  startDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): BillingPeriod {
+  const [year, month] = period.key.split("-").map(Number);
+  return periodStartingIn(year, month + offset, startDay);
+}
+
+/**
+ * The first period of the quarter (or year) a period belongs to, counting
+ * periods by the month they start in
+ */
+export function getFirstPeriodOf(
+  unit: "quarter" | "year",
+  period: BillingPeriod,
+  startDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): BillingPeriod {
+  const [year, month] = period.key.split("-").map(Number);
+  const firstMonth = unit === "year" ? 1 : Math.floor((month - 1) / 3) * 3 + 1;
+  return periodStartingIn(year, firstMonth, startDay);
+}
+
+/**
+ * A short label for a period: the month name for calendar months,
+ * otherwise the first and last day, e.g. "Jul 15 – Aug 14"
+ */
+export function formatBillingPeriod(
+  period: BillingPeriod,
+  startDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+  includeYear: boolean = false,
+): string {
+  const format = (date: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+      timeZone: "UTC",
+      ...options,
+    });
+
+  if (startDay === 1) {
+    return format(period.start, {
+      month: "short",
+      ...(includeYear && { year: "numeric" }),
+    });
+  }
+  return `${format(period.start, { month: "short", day: "numeric" })} – ${format(
+    period.end,
+    { month: "short", day: "numeric", ...(includeYear && { year: "numeric" }) },
+  )}`;
+}
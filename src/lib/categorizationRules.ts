@@ -0,0 +1,161 @@
+import { CategorizedBillingData, ServiceData } from "@/types/billing";
+import {
+  OTHER_SERVICE_ID,
+  SERVICE_REGISTRY,
+  ServiceId,
+  ServiceMatchRule,
+} from "@/lib/serviceRegistry";
+
+/**
+ * Ordered, user-editable rules that assign billing rows to service
+ * categories. The first matching rule wins; rows that no rule matches
+ * land in the catch-all "other" service.
+ */
+
+export interface CategorizationRule extends ServiceMatchRule {
+  id: string;
+  category: ServiceId;
+}
+
+export interface RuleTestResult {
+  matchCounts: Record<string, number>; // Rows matched per rule id
+  unmatched: ServiceData[];
+}
+
+export const DEFAULT_CATEGORIZATION_RULES: CategorizationRule[] =
+  SERVICE_REGISTRY.flatMap((service) =>
+    service.rules.map((rule, index) => ({
+      ...rule,
+      id: service.rules.length > 1 ? `${service.id}-${index}` : service.id,
+      category: service.id,
+    })),
+  );
+
+const STORAGE_KEY = "githubreportsvisualizer.categorizationRules";
+
+/**
+ * Describe what is wrong with a rule, or return null if it is usable
+ */
+export function validateRule(rule: CategorizationRule): string | null {
+  if (rule.skuPattern) {
+    try {
+      new RegExp(rule.skuPattern, "i");
+    } catch {
+      return `Invalid SKU pattern: ${rule.skuPattern}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Compile rules into a function returning the first matching rule
+ */
+export function createRuleMatcher(
+  rules: CategorizationRule[],
+): (item: ServiceData) => CategorizationRule | null {
+  const compiled = rules
+    .filter((rule) => validateRule(rule) === null)
+    .map((rule) => ({
+      rule,
+      product: rule.product?.trim().toLowerCase() || null,
+      unitType: rule.unitType?.trim().toLowerCase() || null,
+      sku: rule.skuPattern ? new RegExp(rule.skuPattern, "i") : null,
+    }));
+
+  return (item) => {
+    const product = item.product?.toLowerCase() ?? "";
+    const unitType = item.unitType?.toLowerCase() ?? "";
+
+    for (const { rule, product: p, unitType: u, sku } of compiled) {
+      if (p !== null && p !== product) continue;
+      if (u !== null && u !== unitType) continue;
+      if (sku !== null && !sku.test(item.sku)) continue;
+      return rule;
+    }
+    return null;
+  };
+}
+
+export function createEmptyCategorizedData(): CategorizedBillingData {
+  return Object.fromEntries(
+    SERVICE_REGISTRY.map((service) => [service.id, [] as ServiceData[]]),
+  );
+}
+
+/**
+ * Add a row to its category, falling back to "other" for categories
+ * that are no longer registered (e.g. from stale saved rules)
+ */
+export function addToCategory(
+  categorized: CategorizedBillingData,
+  category: ServiceId | undefined,
+  item: ServiceData,
+) {
+  const bucket =
+    (category && categorized[category]) || categorized[OTHER_SERVICE_ID];
+  bucket.push(item);
+}
+
+/**
+ * Assign every row to a category using the given rules
+ */
+export function categorizeWithRules(
+  data: ServiceData[],
+  rules: CategorizationRule[],
+): CategorizedBillingData {
+  const match = createRuleMatcher(rules);
+  const categorized = createEmptyCategorizedData();
+
+  for (const item of data) {
+    addToCategory(categorized, match(item)?.category, item);
+  }
+
+  return categorized;
+}
+
+/**
+ * Dry-run rules against a dataset, counting matches per rule
+ */
+export function testRules(
+  data: ServiceData[],
+  rules: CategorizationRule[],
+): RuleTestResult {
+  const match = createRuleMatcher(rules);
+  const matchCounts: Record<string, number> = {};
+  const unmatched: ServiceData[] = [];
+
+  rules.forEach((rule) => (matchCounts[rule.id] = 0));
+
+  for (const item of data) {
+    const rule = match(item);
+    if (rule) {
+      matchCounts[rule.id]++;
+    } else {
+      unmatched.push(item);
+    }
+  }
+
+  return { matchCounts, unmatched };
+}
+
+/**
+ * Load user rules from local storage, falling back to the defaults
+ */
+export function loadCategorizationRules(): CategorizationRule[] {
+  if (typeof localStorage === "undefined") return DEFAULT_CATEGORIZATION_RULES;
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_CATEGORIZATION_RULES;
+
+    const rules = JSON.parse(stored);
+    return Array.isArray(rules) ? rules : DEFAULT_CATEGORIZATION_RULES;
+  } catch (error) {
+    console.warn("Failed to load categorization rules:", error);
+    return DEFAULT_CATEGORIZATION_RULES;
+  }
+}
+
+export function saveCategorizationRules(rules: CategorizationRule[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+}
@@ -0,0 +1,3 @@
+export function formatCurrency(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
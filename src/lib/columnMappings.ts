@@ -0,0 +1,46 @@
+import { ColumnMapping, getReportFormat } from "@/lib/reportFormats";
+
+/**
+ * Column mappings confirmed in the upload preview, remembered per header
+ * signature so that an export layout is mapped the same way next time.
+ */
+
+const STORAGE_KEY = "githubreportsvisualizer.columnMappings";
+
+/** Identify a header layout independently of letter case */
+export function getHeaderSignature(header: string[]): string {
+  return header.map((h) => h.toLowerCase()).join("\u001f");
+}
+
+function loadColumnMappings(): Record<string, ColumnMapping> {
+  if (typeof localStorage === "undefined") return {};
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const mappings = stored ? JSON.parse(stored) : {};
+    return mappings && typeof mappings === "object" ? mappings : {};
+  } catch (error) {
+    console.warn("Failed to load column mappings:", error);
+    return {};
+  }
+}
+
+/**
+ * Look up the remembered mapping for a header, ignoring mappings that no
+ * longer fit it
+ */
+export function loadColumnMapping(header: string[]): ColumnMapping | null {
+  const mapping = loadColumnMappings()[getHeaderSignature(header)];
+  if (!mapping?.columns || !getReportFormat(mapping.format)) return null;
+
+  const fits = Object.values(mapping.columns).every(
+    (index) => Number.isInteger(index) && index < header.length,
+  );
+  return fits ? mapping : null;
+}
+
+export function saveColumnMapping(header: string[], mapping: ColumnMapping) {
+  const mappings = loadColumnMappings();
+  mappings[getHeaderSignature(header)] = mapping;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+}
@@ -0,0 +1,485 @@
+import { CategorizedBillingData, ServiceData } from "@/types/billing";
+import {
+  DataFilterOptions,
+  FILTER_DIMENSIONS,
+  FacetCount,
+  FilterDimension,
+  compareAmount,
+  compilePatterns,
+  normalizeDimensionFilter,
+} from "@/lib/dataProcessor";
+
+/**
+ * Column-oriented copy of a report's rows for fast filtering and grouping
+ * of large uploads. Rows are kept in date order, so a date range is a
+ * contiguous run of rows. Amounts live in typed arrays, and each filter
+ * dimension is dictionary-encoded with the rows of every value indexed.
+ * Charts aggregate selections of rows without materializing them.
+ */
+
+/** Indexes of matching rows, in ascending order */
+export type RowSelection = Uint32Array;
+
+/** Amounts summed per row; gross and discount default as when billed */
+export type Measure = "cost" | "quantity" | "gross" | "discount";
+
+export const MEASURES: Measure[] = ["cost", "quantity", "gross", "discount"];
+
+// Dictionary-encoded fields: the filter dimensions, the service a row was
+// categorized into and its unit
+export type GroupField = FilterDimension | "service" | "unitType";
+
+export type GroupKey = GroupField | "date";
+
+/** Rows of a dataset, which charts aggregate */
+export interface DatasetRows {
+  dataset: ColumnarDataset;
+  selection: RowSelection;
+}
+
+interface DictionaryColumn {
+  values: string[]; // Sorted; "" stands for rows without a value
+  codes: Uint32Array; // Position of each row's value in `values`
+  postings: Uint32Array[]; // Rows of each value, in ascending order
+}
+
+// Rows a dimension's filter lets through, by dictionary code
+interface DimensionConstraint {
+  column: DictionaryColumn;
+  allowed: Uint8Array;
+}
+
+// Shared by a dataset and the views of it scoped to one service
+interface DatasetColumns {
+  rows: ServiceData[];
+  dates: string[]; // Distinct dates, sorted
+  dateOffsets: Uint32Array; // First row of each date
+  dateCodes: Uint32Array;
+  measures: Record<Measure, Float64Array>;
+  dictionaries: Record<GroupField, DictionaryColumn>;
+}
+
+function encodeColumn(
+  rows: ServiceData[],
+  read: (item: ServiceData, index: number) => string,
+): DictionaryColumn {
+  const values = Array.from(new Set(rows.map(read))).sort();
+  const index = new Map(values.map((value, code) => [value, code]));
+
+  const codes = new Uint32Array(rows.length);
+  const counts = new Uint32Array(values.length);
+  for (let i = 0; i < rows.length; i++) {
+    const code = index.get(read(rows[i], i))!;
+    codes[i] = code;
+    counts[code]++;
+  }
+
+  const postings = Array.from(counts, (count) => new Uint32Array(count));
+  const filled = new Uint32Array(values.length);
+  for (let i = 0; i < rows.length; i++) {
+    const code = codes[i];
+    postings[code][filled[code]++] = i;
+  }
+
+  return { values, codes, postings };
+}
+
+function buildColumns(
+  unsorted: ServiceData[],
+  services: string[],
+): DatasetColumns {
+  const order = Array.from(unsorted.keys()).sort((a, b) =>
+    unsorted[a].date < unsorted[b].date
+      ? -1
+      : unsorted[a].date > unsorted[b].date
+        ? 1
+        : 0,
+  );
+  const rows = order.map((index) => unsorted[index]);
+
+  const dateColumn = encodeColumn(rows, (item) => item.date);
+  const dateOffsets = new Uint32Array(dateColumn.values.length + 1);
+  let offset = 0;
+  dateColumn.postings.forEach((rowsOfDate, code) => {
+    dateOffsets[code] = offset;
+    offset += rowsOfDate.length;
+  });
+  dateOffsets[dateColumn.values.length] = offset;
+
+  return {
+    rows,
+    dates: dateColumn.values,
+    dateOffsets,
+    dateCodes: dateColumn.codes,
+    measures: {
+      cost: Float64Array.from(rows, (item) => item.cost),
+      quantity: Float64Array.from(rows, (item) => item.quantity),
+      gross: Float64Array.from(rows, (item) => item.grossAmount ?? item.cost),
+      discount: Float64Array.from(rows, (item) => item.discountAmount ?? 0),
+    },
+    dictionaries: {
+      ...(Object.fromEntries(
+        FILTER_DIMENSIONS.map((dimension) => [
+          dimension,
+          encodeColumn(rows, (item) => item[dimension] || ""),
+        ]),
+      ) as Record<FilterDimension, DictionaryColumn>),
+      service: encodeColumn(rows, (_, index) => services[order[index]] || ""),
+      unitType: encodeColumn(rows, (item) => item.unitType || ""),
+    },
+  };
+}
+
+/** First position in a sorted list whose value passes the test */
+function lowerBound(values: string[], isAfter: (value: string) => boolean) {
+  let low = 0;
+  let high = values.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (isAfter(values[middle])) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+}
+
+export class ColumnarDataset {
+  readonly length: number;
+
+  private readonly columns: DatasetColumns;
+  private readonly scope: RowSelection | null; // Rows of the service
+  private readonly scopeCode: number; // The service's dictionary code
+  private scopedRows: ServiceData[] | null = null;
+
+  private constructor(columns: DatasetColumns, service?: string) {
+    this.columns = columns;
+    if (service === undefined) {
+      this.scope = null;
+      this.scopeCode = -1;
+    } else {
+      const { values, postings } = columns.dictionaries.service;
+      this.scopeCode = values.indexOf(service);
+      this.scope =
+        this.scopeCode >= 0 ? postings[this.scopeCode] : new Uint32Array(0);
+    }
+    this.length = this.scope ? this.scope.length : columns.rows.length;
+  }
+
+  static fromRows(rows: ServiceData[]): ColumnarDataset {
+    return new ColumnarDataset(buildColumns(rows, []));
+  }
+
+  /** Every row of a report, remembering the service each belongs to */
+  static fromCategorized(
+    categorizedData: CategorizedBillingData,
+  ): ColumnarDataset {
+    const rows: ServiceData[] = [];
+    const services: string[] = [];
+    for (const [service, items] of Object.entries(categorizedData)) {
+      for (const item of items) {
+        rows.push(item);
+        services.push(service);
+      }
+    }
+    return new ColumnarDataset(buildColumns(rows, services));
+  }
+
+  /**
+   * The rows of one service, sharing this dataset's columns. Selections
+   * of the view index the same rows as selections of the whole dataset.
+   */
+  forService(service: string): ColumnarDataset {
+    return new ColumnarDataset(this.columns, service);
+  }
+
+  /** Every row, in date order */
+  getRows(): ServiceData[] {
+    if (!this.scope) return this.columns.rows;
+    this.scopedRows ??= this.getRowsOf(this.scope);
+    return this.scopedRows;
+  }
+
+  getRowsOf(selection: RowSelection): ServiceData[] {
+    const { rows } = this.columns;
+    if (selection.length === rows.length) return rows;
+    return Array.from(selection, (row) => rows[row]);
+  }
+
+  getDateRange(): { start: string; end: string } {
+    const { rows, dates } = this.columns;
+    if (this.scope) {
+      return {
+        start: rows[this.scope[0]]?.date || "",
+        end: rows[this.scope[this.scope.length - 1]]?.date || "",
+      };
+    }
+    return {
+      start: dates[0] || "",
+      end: dates[dates.length - 1] || "",
+    };
+  }
+
+  /** Distinct non-empty values of a dimension, sorted */
+  getUniqueValues(dimension: FilterDimension): string[] {
+    const { values, codes } = this.columns.dictionaries[dimension];
+    if (!this.scope) return values.filter(Boolean);
+
+    const seen = new Uint8Array(values.length);
+    this.scope.forEach((row) => (seen[codes[row]] = 1));
+    return values.filter((value, code) => value && seen[code]);
+  }
+
+  /**
+   * Rows matching the filters, with the same semantics as
+   * `DataProcessor.createFilterPredicate`. The filter on `ignore` is left
+   * out, as facet counts need.
+   */
+  select(filters: DataFilterOptions, ignore?: FilterDimension): RowSelection {
+    const { dates, dateOffsets } = this.columns;
+    const { startDate, endDate, amounts = [] } = filters;
+
+    // Dates are sorted, so the range is a contiguous run of rows
+    const start =
+      dateOffsets[
+        startDate ? lowerBound(dates, (date) => date >= startDate) : 0
+      ];
+    const end =
+      dateOffsets[
+        endDate ? lowerBound(dates, (date) => date > endDate) : dates.length
+      ];
+    if (start >= end) return new Uint32Array(0);
+
+    const constraints = this.compileConstraints(filters, ignore);
+    const measures = amounts.map((condition) => ({
+      ...condition,
+      column: this.columns.measures[condition.field],
+    }));
+
+    // Walk the postings of the most selective dimension when that visits
+    // fewer rows than the date range
+    let candidates: Uint32Array | null = null;
+    let candidateCount = end - start;
+    for (const { column, allowed } of constraints) {
+      let count = 0;
+      allowed.forEach((isAllowed, code) => {
+        if (isAllowed) count += column.postings[code].length;
+      });
+      if (count < candidateCount) {
+        candidateCount = count;
+        candidates = new Uint32Array(count);
+        let offset = 0;
+        allowed.forEach((isAllowed, code) => {
+          if (!isAllowed) return;
+          candidates!.set(column.postings[code], offset);
+          offset += column.postings[code].length;
+        });
+      }
+    }
+    candidates?.sort();
+
+    const selection = new Uint32Array(candidateCount);
+    let selected = 0;
+    const visit = (row: number) => {
+      if (row < start || row >= end) return;
+      for (const { column, allowed } of constraints) {
+        if (!allowed[column.codes[row]]) return;
+      }
+      for (const { column, operator, value } of measures) {
+        if (!compareAmount(column[row], operator, value)) return;
+      }
+      selection[selected++] = row;
+    };
+
+    if (candidates) {
+      candidates.forEach(visit);
+    } else {
+      for (let row = start; row < end; row++) visit(row);
+    }
+
+    return selection.subarray(0, selected);
+  }
+
+  /** Rows matching the filters; every row when nothing is filtered */
+  filter(filters: DataFilterOptions): ServiceData[] {
+    return this.getRowsOf(this.select(filters));
+  }
+
+  /**
+   * Values of a dimension with the number of rows each would match under
+   * the other filters, like `DataProcessor.getFacetCounts`
+   */
+  getFacetCounts(
+    filters: DataFilterOptions,
+    dimension: FilterDimension,
+  ): FacetCount[] {
+    const facets: FacetCount[] = [];
+    this.countBy(this.select(filters, dimension), dimension).forEach(
+      (count, value) => {
+        if (value) facets.push({ value, count });
+      },
+    );
+    return facets.sort((a, b) => a.value.localeCompare(b.value));
+  }
+
+  /** Number of distinct non-empty values of a field among the rows */
+  countDistinct(selection: RowSelection, key: GroupField): number {
+    const { values, codes } = this.columns.dictionaries[key];
+    const seen = new Uint8Array(values.length);
+    selection.forEach((row) => (seen[codes[row]] = 1));
+    return values.reduce(
+      (count, value, code) => count + (value && seen[code] ? 1 : 0),
+      0,
+    );
+  }
+
+  /** Number of rows per value of a field (or per date) */
+  countBy(selection: RowSelection, key: GroupKey): Map<string, number> {
+    const { values, codes } = this.getGroupColumn(key);
+    const counts = new Uint32Array(values.length);
+    selection.forEach((row) => counts[codes[row]]++);
+
+    const groups = new Map<string, number>();
+    counts.forEach((count, code) => {
+      if (count > 0) groups.set(values[code], count);
+    });
+    return groups;
+  }
+
+  /** Total of a measure over the rows */
+  sum(selection: RowSelection, measure: Measure): number {
+    const column = this.columns.measures[measure];
+    let total = 0;
+    selection.forEach((row) => (total += column[row]));
+    return total;
+  }
+
+  /**
+   * Total of a measure per value of a field (or per date) over the rows,
+   * in the value's sort order. Rows without a value group under "".
+   */
+  groupBy(
+    selection: RowSelection,
+    key: GroupKey,
+    measure: Measure,
+  ): Map<string, number> {
+    const { values, codes } = this.getGroupColumn(key);
+    const column = this.columns.measures[measure];
+    const totals = new Float64Array(values.length);
+    const seen = new Uint8Array(values.length);
+
+    selection.forEach((row) => {
+      totals[codes[row]] += column[row];
+      seen[codes[row]] = 1;
+    });
+
+    const groups = new Map<string, number>();
+    values.forEach((value, code) => {
+      if (seen[code]) groups.set(value, totals[code]);
+    });
+    return groups;
+  }
+
+  /**
+   * Like `groupBy`, per date as well: the totals of each value on each
+   * date with rows, in date order
+   */
+  groupByDate(
+    selection: RowSelection,
+    key: GroupField,
+    measure: Measure,
+  ): Map<string, Map<string, number>> {
+    const { dates, dateCodes } = this.columns;
+    const { values, codes } = this.columns.dictionaries[key];
+    const column = this.columns.measures[measure];
+    const totals = new Float64Array(values.length);
+    const isTouched = new Uint8Array(values.length);
+    const touched: number[] = [];
+    const groups = new Map<string, Map<string, number>>();
+
+    // Rows are in date order, so each date's rows come together
+    let dateCode = -1;
+    const flush = () => {
+      if (dateCode < 0) return;
+      groups.set(
+        dates[dateCode],
+        new Map(touched.map((code) => [values[code], totals[code]])),
+      );
+      touched.forEach((code) => {
+        totals[code] = 0;
+        isTouched[code] = 0;
+      });
+      touched.length = 0;
+    };
+
+    selection.forEach((row) => {
+      if (dateCodes[row] !== dateCode) {
+        flush();
+        dateCode = dateCodes[row];
+      }
+      const code = codes[row];
+      if (!isTouched[code]) {
+        isTouched[code] = 1;
+        touched.push(code);
+      }
+      totals[code] += column[row];
+    });
+    flush();
+
+    return groups;
+  }
+
+  private getGroupColumn(key: GroupKey): {
+    values: string[];
+    codes: Uint32Array;
+  } {
+    return key === "date"
+      ? { values: this.columns.dates, codes: this.columns.dateCodes }
+      : this.columns.dictionaries[key];
+  }
+
+  private compileConstraints(
+    filters: DataFilterOptions,
+    ignore?: FilterDimension,
+  ): DimensionConstraint[] {
+    const constraints: DimensionConstraint[] = [];
+
+    // A view of one service only ever selects that service's rows
+    if (this.scope) {
+      const column = this.columns.dictionaries.service;
+      const allowed = new Uint8Array(column.values.length);
+      if (this.scopeCode >= 0) allowed[this.scopeCode] = 1;
+      constraints.push({ column, allowed });
+    }
+
+    for (const dimension of FILTER_DIMENSIONS) {
+      if (dimension === ignore) continue;
+      const filter = normalizeDimensionFilter(filters[dimension]);
+      const include = new Set(filter.include);
+      const exclude = new Set(filter.exclude);
+      const includePatterns = compilePatterns(filter.includePatterns);
+      const excludePatterns = compilePatterns(filter.excludePatterns);
+      const hasInclude = include.size > 0 || includePatterns.length > 0;
+      if (!hasInclude && exclude.size === 0 && !excludePatterns.length) {
+        continue;
+      }
+
+      // Patterns are tested once per distinct value rather than per row
+      const column = this.columns.dictionaries[dimension];
+      const allowed = Uint8Array.from(column.values, (value) => {
+        const included =
+          !hasInclude ||
+          include.has(value) ||
+          includePatterns.some((pattern) => pattern.test(value));
+        const excluded =
+          exclude.has(value) ||
+          excludePatterns.some((pattern) => pattern.test(value));
+        return included && !excluded ? 1 : 0;
+      });
+      constraints.push({ column, allowed });
+    }
+
+    return constraints;
+  }
+}
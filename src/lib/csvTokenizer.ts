@@ -0,0 +1,269 @@
+/**
+ * RFC 4180 CSV tokenizer that can be fed input in arbitrary chunks
+ */
+
+export interface CSVRecord {
+  fields: string[];
+  line: number; // 1-based line on which the record starts
+  error?: string; // Set when the record is malformed
+}
+
+type TokenizerState =
+  | "fieldStart"
+  | "unquoted"
+  | "quoted"
+  | "quoteInQuoted"
+  | "invalid"; // Skipping the rest of a malformed line
+
+const BOM = "\uFEFF";
+
+/**
+ * A malformed record doesn't stop tokenizing: the line it starts on is
+ * returned as a record with an `error` (its fields split naively on the
+ * delimiter), and tokenizing resumes on the next line.
+ */
+export class CSVTokenizer {
+  private state: TokenizerState = "fieldStart";
+  private field = "";
+  private fields: string[] = [];
+  private line = 1;
+  private column = 0;
+  private recordLine = 1;
+  private quoteLine = 0;
+  private quoteColumn = 0;
+  private afterCR = false;
+  private atStart = true;
+  private raw = ""; // Text of the current record from earlier chunks
+  private error = "";
+
+  constructor(private readonly delimiter: string = ",") {}
+
+  /**
+   * Consume the next chunk of input and return every record it completes
+   */
+  push(chunk: string): CSVRecord[] {
+    const records: CSVRecord[] = [];
+    let text = chunk;
+    let start = 0;
+
+    if (this.atStart && text.length > 0) {
+      this.atStart = false;
+      if (text.startsWith(BOM)) start = 1;
+    }
+    let recordStart = start;
+
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+
+      // Swallow the LF of a CRLF pair that was split across chunks
+      if (this.afterCR) {
+        this.afterCR = false;
+        if (char === "\n") {
+          if (this.state === "quoted") {
+            this.field += char;
+          } else {
+            recordStart = i + 1;
+          }
+          continue;
+        }
+      }
+
+      if (char === "\r" || char === "\n") {
+        if (this.state === "quoted") {
+          this.field += char;
+        } else {
+          if (this.state === "invalid") {
+            this.rejectRecord(
+              records,
+              this.raw + text.substring(recordStart, i),
+            );
+            this.recordLine = this.line + 1;
+          } else {
+            this.endRecord(records);
+          }
+          this.raw = "";
+          recordStart = i + 1;
+        }
+        this.line++;
+        this.column = 0;
+        this.afterCR = char === "\r";
+        continue;
+      }
+
+      if (this.state === "invalid") continue;
+      this.column++;
+
+      let error = "";
+      switch (this.state) {
+        case "fieldStart":
+          if (char === '"') {
+            this.state = "quoted";
+            this.quoteLine = this.line;
+            this.quoteColumn = this.column;
+          } else if (char === this.delimiter) {
+            this.endField();
+          } else {
+            this.field += char;
+            this.state = "unquoted";
+          }
+          break;
+
+        case "unquoted":
+          if (char === this.delimiter) {
+            this.endField();
+          } else if (char === '"') {
+            error = "Unexpected quote in unquoted field";
+          } else {
+            this.field += char;
+          }
+          break;
+
+        case "quoted":
+          if (char === '"') {
+            this.state = "quoteInQuoted";
+          } else {
+            this.field += char;
+          }
+          break;
+
+        case "quoteInQuoted":
+          if (char === '"') {
+            // Escaped quote ("")
+            this.field += char;
+            this.state = "quoted";
+          } else if (char === this.delimiter) {
+            this.endField();
+          } else {
+            error = "Unexpected character after closing quote";
+          }
+          break;
+      }
+      if (!error) continue;
+
+      this.error = `${error} at line ${this.line}, column ${this.column}`;
+      const rest = this.raw + text.substring(recordStart);
+      const lineBreak = rest.search(/[\r\n]/);
+      if (lineBreak < 0) {
+        // Still on the record's first line; skip to its end
+        this.state = "invalid";
+        continue;
+      }
+
+      // The record spans lines, which the error may have come from
+      // misreading: reject its first line and read on from the next
+      this.rejectRecord(records, rest.substring(0, lineBreak));
+      this.line = this.recordLine;
+      this.column = 0;
+      text = rest.substring(lineBreak);
+      recordStart = 0;
+      i = -1;
+    }
+
+    this.raw += text.substring(recordStart);
+    return records;
+  }
+
+  /**
+   * Signal end of input and return the final record, if any
+   */
+  end(): CSVRecord[] {
+    let records: CSVRecord[] = [];
+
+    // A quote that is never closed swallows the rest of the input, so
+    // reject the line it opened on and read the rest again
+    while (this.state === "quoted") {
+      this.error =
+        `Unterminated quoted field at line ${this.quoteLine}, ` +
+        `column ${this.quoteColumn}`;
+      const rest = this.raw;
+      const lineBreak = rest.search(/[\r\n]/);
+      this.rejectRecord(
+        records,
+        lineBreak < 0 ? rest : rest.substring(0, lineBreak),
+      );
+      if (lineBreak < 0) break;
+
+      this.line = this.recordLine;
+      this.column = 0;
+      this.afterCR = false;
+      records = records.concat(this.push(rest.substring(lineBreak)));
+    }
+
+    if (this.state === "invalid") {
+      this.rejectRecord(records, this.raw);
+    } else {
+      this.endRecord(records);
+    }
+    this.raw = "";
+    return records;
+  }
+
+  private endField() {
+    this.fields.push(this.field);
+    this.field = "";
+    this.state = "fieldStart";
+  }
+
+  private endRecord(records: CSVRecord[]) {
+    const isBlankLine =
+      this.fields.length === 0 &&
+      this.field === "" &&
+      this.state === "fieldStart";
+
+    if (!isBlankLine) {
+      this.endField();
+      records.push({ fields: this.fields, line: this.recordLine });
+    }
+
+    this.fields = [];
+    this.field = "";
+    this.state = "fieldStart";
+    this.recordLine = this.line + 1;
+  }
+
+  private rejectRecord(records: CSVRecord[], rawLine: string) {
+    records.push({
+      fields: rawLine.split(this.delimiter),
+      line: this.recordLine,
+      error: this.error,
+    });
+    this.fields = [];
+    this.field = "";
+    this.state = "fieldStart";
+    this.raw = "";
+  }
+}
+
+export interface ReadCSVOptions {
+  signal?: AbortSignal;
+  onBytesRead?: (bytesRead: number) => void;
+}
+
+/**
+ * Tokenize a byte stream (e.g. `File.stream()`) into CSV records
+ */
+export async function* readCSVRecords(
+  stream: ReadableStream<Uint8Array>,
+  options: ReadCSVOptions = {},
+): AsyncGenerator<CSVRecord> {
+  const { signal, onBytesRead } = options;
+  const reader = stream.getReader();
+  const decoder = new TextDecoder("utf-8");
+  const tokenizer = new CSVTokenizer();
+  let bytesRead = 0;
+
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+      const { done, value } = await reader.read();
+      if (done) break;
+      bytesRead += value.byteLength;
+      onBytesRead?.(bytesRead);
+      yield* tokenizer.push(decoder.decode(value, { stream: true }));
+    }
+    yield* tokenizer.push(decoder.decode());
+    yield* tokenizer.end();
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -1,97 +1,316 @@
-import { ServiceData } from "@/types/billing";
+import { CategorizedBillingData, ServiceData } from "@/types/billing";
+import type { BucketTotals } from "@/lib/aggregation";
+import {
+  CategorizationRule,
+  DEFAULT_CATEGORIZATION_RULES,
+  categorizeWithRules,
+} from "@/lib/categorizationRules";
+import {
+  DEFAULT_BILLING_CYCLE_START_DAY,
+  getBillingPeriod,
+  shiftBillingPeriod,
+  shiftDate,
+} from "@/lib/billingCycle";
 
 /**
  * Memory-efficient data aggregation utilities
  */
 
+export interface PeriodChange {
+  current: number;
+  previous: number;
+  change: number | null; // Percentage; null without previous spend
+}
+
+export interface PeriodComparison {
+  current: { start: string; end: string };
+  previous: { start: string; end: string };
+  total: PeriodChange;
+  groups: Record<string, PeriodChange>; // By group key
+}
+
+/** Row fields that can be filtered by value */
+export type FilterDimension =
+  | "organization"
+  | "repository"
+  | "costCenter"
+  | "sku";
+
+export const FILTER_DIMENSIONS: FilterDimension[] = [
+  "organization",
+  "repository",
+  "costCenter",
+  "sku",
+];
+
+export interface DimensionFilter {
+  include: string[]; // Empty to include every value
+  exclude: string[];
+  includePatterns?: string[]; // Case-insensitive regular expressions
+  excludePatterns?: string[];
+}
+
+export type AmountField = "cost" | "quantity";
+export type ComparisonOperator = ">" | ">=" | "<" | "<=" | "=";
+
+export interface AmountCondition {
+  field: AmountField;
+  operator: ComparisonOperator;
+  value: number;
+}
+
+export interface DataFilterOptions {
+  startDate?: string;
+  endDate?: string;
+  // A single value ("all" or empty for none) or include/exclude lists
+  organization?: string | DimensionFilter;
+  repository?: string | DimensionFilter;
+  costCenter?: string | DimensionFilter;
+  sku?: string | DimensionFilter;
+  amounts?: AmountCondition[]; // All must hold
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export function normalizeDimensionFilter(
+  filter: string | DimensionFilter | undefined,
+): DimensionFilter {
+  if (typeof filter === "string") {
+    return {
+      include: filter && filter !== "all" ? [filter] : [],
+      exclude: [],
+    };
+  }
+  return filter || { include: [], exclude: [] };
+}
+
+/** Compile patterns, skipping any that aren't valid regular expressions */
+export function compilePatterns(patterns: string[] = []): RegExp[] {
+  return patterns.flatMap((pattern) => {
+    try {
+      return [new RegExp(pattern, "i")];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function compareAmount(
+  actual: number,
+  operator: ComparisonOperator,
+  expected: number,
+): boolean {
+  switch (operator) {
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+/** Period that rows are summed into along the time axis */
+export type TimeBucket =
+  | "day"
+  | "week" // Starting on Sunday
+  | "isoWeek" // Starting on Monday, as in ISO 8601
+  | "month"
+  | "quarter"
+  | "billingCycle";
+
+// Candidates for automatic selection, finest first
+const AUTO_TIME_BUCKETS: TimeBucket[] = ["day", "week", "month", "quarter"];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Narrowest spacing at which points along a line stay distinguishable
+const MIN_PIXELS_PER_POINT = 3;
+
 export interface ProcessingOptions {
   maxDataPoints?: number; // Limit data points for performance
-  chunkSize?: number; // Process data in chunks
+  chartWidth?: number; // Pixels available, further limiting data points
+}
+
+/** First day (YYYY-MM-DD) of the bucket a date falls in */
+export function getBucketStart(
+  date: string,
+  bucket: TimeBucket,
+  billingCycleStartDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): string {
+  const day = date.substring(0, 10);
+  switch (bucket) {
+    case "day":
+      return day;
+    case "week":
+    case "isoWeek": {
+      const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+      return shiftDate(
+        day,
+        bucket === "week" ? -weekday : -((weekday + 6) % 7),
+      );
+    }
+    case "month":
+      return `${day.substring(0, 7)}-01`;
+    case "quarter": {
+      const month = Number(day.substring(5, 7));
+      const firstMonth = Math.floor((month - 1) / 3) * 3 + 1;
+      return `${day.substring(0, 4)}-${String(firstMonth).padStart(2, "0")}-01`;
+    }
+    case "billingCycle":
+      return getBillingPeriod(day, billingCycleStartDay).start;
+  }
+}
+
+/** Last day (YYYY-MM-DD) of the bucket a date falls in */
+export function getBucketEnd(
+  date: string,
+  bucket: TimeBucket,
+  billingCycleStartDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): string {
+  const start = getBucketStart(date, bucket, billingCycleStartDay);
+  switch (bucket) {
+    case "day":
+      return start;
+    case "week":
+    case "isoWeek":
+      return shiftDate(start, 6);
+    case "billingCycle":
+      return getBillingPeriod(start, billingCycleStartDay).end;
+    default: {
+      // The day before the first day of the next month or quarter
+      const [year, month] = start.split("-").map(Number);
+      const next = new Date(
+        Date.UTC(year, month - 1 + (bucket === "quarter" ? 3 : 1), 1),
+      );
+      return shiftDate(next.toISOString(), -1);
+    }
+  }
+}
+
+function countBuckets(
+  start: string,
+  end: string,
+  bucket: TimeBucket,
+  billingCycleStartDay?: number,
+): number {
+  const first = getBucketStart(start, bucket, billingCycleStartDay);
+  const last = getBucketStart(end, bucket, billingCycleStartDay);
+  if (bucket === "day" || bucket === "week" || bucket === "isoWeek") {
+    const days = Math.round(
+      (Date.parse(last) - Date.parse(first)) / MS_PER_DAY,
+    );
+    return Math.floor(days / (bucket === "day" ? 1 : 7)) + 1;
+  }
+
+  // Month-based buckets start on the same day of their first month
+  const [firstYear, firstMonth] = first.split("-").map(Number);
+  const [lastYear, lastMonth] = last.split("-").map(Number);
+  const months = (lastYear - firstYear) * 12 + lastMonth - firstMonth;
+  return Math.floor(months / (bucket === "quarter" ? 3 : 1)) + 1;
 }
 
 export class DataProcessor {
   private static readonly DEFAULT_MAX_DATA_POINTS = 1000;
-  private static readonly DEFAULT_CHUNK_SIZE = 5000;
 
   /**
-   * Efficiently aggregate data by date with memory optimization
+   * Points a chart can show: the point limit, narrowed further to what
+   * fits in the chart's width
    */
-  static aggregateByDate(
-    data: ServiceData[],
-    options: ProcessingOptions = {},
-  ): Record<string, any> {
-    const {
-      maxDataPoints = this.DEFAULT_MAX_DATA_POINTS,
-      chunkSize = this.DEFAULT_CHUNK_SIZE,
-    } = options;
-
-    // Sort data by date to enable efficient sampling
-    const sortedData = [...data].sort((a, b) => a.date.localeCompare(b.date));
-
-    // If data is too large, sample it intelligently
-    const sampledData =
-      sortedData.length > maxDataPoints
-        ? this.sampleData(sortedData, maxDataPoints)
-        : sortedData;
-
-    const aggregated: Record<string, any> = {};
-
-    // Process in chunks to avoid blocking the main thread
-    for (let i = 0; i < sampledData.length; i += chunkSize) {
-      const chunk = sampledData.slice(i, i + chunkSize);
-
-      chunk.forEach((item) => {
-        const date = item.date;
-        if (!aggregated[date]) {
-          aggregated[date] = {
-            date,
-            cost: 0,
-            quantity: 0,
-            repositories: new Set<string>(),
-            organizations: new Set<string>(),
-            skus: new Set<string>(),
-          };
-        }
-
-        aggregated[date].cost += item.cost;
-        aggregated[date].quantity += item.quantity;
-
-        if (item.repository) aggregated[date].repositories.add(item.repository);
-        if (item.organization)
-          aggregated[date].organizations.add(item.organization);
-        aggregated[date].skus.add(item.sku);
-      });
-    }
-
-    // Convert Sets to counts for memory efficiency
-    Object.values(aggregated).forEach((item: any) => {
-      item.repositoryCount = item.repositories.size;
-      item.organizationCount = item.organizations.size;
-      item.skuCount = item.skus.size;
-      delete item.repositories;
-      delete item.organizations;
-      delete item.skus;
-    });
+  static getMaxDataPoints(options: ProcessingOptions = {}): number {
+    const { maxDataPoints = this.DEFAULT_MAX_DATA_POINTS, chartWidth } =
+      options;
+    return chartWidth
+      ? Math.max(
+          2,
+          Math.min(maxDataPoints, Math.floor(chartWidth / MIN_PIXELS_PER_POINT)),
+        )
+      : maxDataPoints;
+  }
 
-    return aggregated;
+  /**
+   * The finest bucket that keeps a date range within the point limit,
+   * falling back to quarters for very long ranges
+   */
+  static chooseTimeBucket(
+    startDate: string,
+    endDate: string,
+    options: ProcessingOptions = {},
+  ): TimeBucket {
+    if (!startDate || !endDate) return "day";
+    const maxDataPoints = this.getMaxDataPoints(options);
+    return (
+      AUTO_TIME_BUCKETS.find(
+        (bucket) => countBuckets(startDate, endDate, bucket) <= maxDataPoints,
+      ) || "quarter"
+    );
   }
 
   /**
-   * Intelligently sample large datasets while preserving trends
+   * Thin an ordered series to at most `maxPoints` for rendering, using
+   * Largest-Triangle-Three-Buckets so peaks and dips survive. The points
+   * kept are unchanged, so sum the full series for totals.
    */
-  private static sampleData(
-    data: ServiceData[],
-    targetSize: number,
-  ): ServiceData[] {
-    if (data.length <= targetSize) return data;
+  static downsampleSeries<T>(
+    series: T[],
+    maxPoints: number,
+    getValue: (point: T) => number,
+  ): T[] {
+    if (series.length <= maxPoints) return series;
+    if (maxPoints < 3) {
+      return [series[0], series[series.length - 1]].slice(0, maxPoints);
+    }
 
-    const step = Math.ceil(data.length / targetSize);
-    const sampled: ServiceData[] = [];
+    // The first and last points are always kept
+    const sampled = [series[0]];
+    const bucketSize = (series.length - 2) / (maxPoints - 2);
+    let previous = 0;
+
+    for (let i = 0; i < maxPoints - 2; i++) {
+      // Average of the next bucket, the third corner of the triangle
+      const nextStart = Math.floor((i + 1) * bucketSize) + 1;
+      const nextEnd = Math.min(
+        Math.floor((i + 2) * bucketSize) + 1,
+        series.length,
+      );
+      let averageX = 0;
+      let averageY = 0;
+      for (let j = nextStart; j < nextEnd; j++) {
+        averageX += j;
+        averageY += getValue(series[j]);
+      }
+      averageX /= nextEnd - nextStart;
+      averageY /= nextEnd - nextStart;
+
+      // Keep the point of this bucket forming the largest triangle
+      const start = Math.floor(i * bucketSize) + 1;
+      const end = Math.floor((i + 1) * bucketSize) + 1;
+      const previousY = getValue(series[previous]);
+      let maxArea = -1;
+      let selected = start;
+      for (let j = start; j < end; j++) {
+        const area = Math.abs(
+          (previous - averageX) * (getValue(series[j]) - previousY) -
+            (previous - j) * (averageY - previousY),
+        );
+        if (area > maxArea) {
+          maxArea = area;
+          selected = j;
+        }
+      }
 
-    for (let i = 0; i < data.length; i += step) {
-      sampled.push(data[i]);
+      sampled.push(series[selected]);
+      previous = selected;
     }
 
+    sampled.push(series[series.length - 1]);
     return sampled;
   }
 
@@ -110,40 +329,96 @@ export class DataProcessor {
   }
 
   /**
-   * Efficient filtering with early termination
+   * Build the row predicate behind `filterData`, so other filter inputs
+   * can match exactly the same rows
    */
-  static filterData(
-    data: ServiceData[],
-    filters: {
-      startDate?: string;
-      endDate?: string;
-      organization?: string;
-      repository?: string;
-      costCenter?: string;
-    },
-  ): ServiceData[] {
-    const { startDate, endDate, organization, repository, costCenter } =
-      filters;
-
-    return data.filter((item) => {
+  static createFilterPredicate(
+    filters: DataFilterOptions,
+  ): (item: ServiceData) => boolean {
+    const { startDate, endDate, amounts = [] } = filters;
+    const dimensions = FILTER_DIMENSIONS.map((dimension) => {
+      const filter = normalizeDimensionFilter(filters[dimension]);
+      return {
+        dimension,
+        include: filter.include.length > 0 ? new Set(filter.include) : null,
+        exclude: filter.exclude.length > 0 ? new Set(filter.exclude) : null,
+        includePatterns: compilePatterns(filter.includePatterns),
+        excludePatterns: compilePatterns(filter.excludePatterns),
+      };
+    }).filter(
+      (filter) =>
+        filter.include ||
+        filter.exclude ||
+        filter.includePatterns.length > 0 ||
+        filter.excludePatterns.length > 0,
+    );
+
+    return (item) => {
       // Date filtering (most selective first)
       if (startDate && item.date < startDate) return false;
       if (endDate && item.date > endDate) return false;
 
-      // String filtering with exact matches for performance
-      if (
-        organization &&
-        organization !== "all" &&
-        item.organization !== organization
-      )
-        return false;
-      if (repository && repository !== "all" && item.repository !== repository)
-        return false;
-      if (costCenter && costCenter !== "all" && item.costCenter !== costCenter)
-        return false;
+      for (const filter of dimensions) {
+        const value = item[filter.dimension] || "";
+        // Included values and patterns are alternatives; exclusions always win
+        if (
+          (filter.include || filter.includePatterns.length > 0) &&
+          !filter.include?.has(value) &&
+          !filter.includePatterns.some((pattern) => pattern.test(value))
+        ) {
+          return false;
+        }
+        if (
+          filter.exclude?.has(value) ||
+          filter.excludePatterns.some((pattern) => pattern.test(value))
+        ) {
+          return false;
+        }
+      }
+
+      for (const { field, operator, value } of amounts) {
+        if (!compareAmount(item[field], operator, value)) return false;
+      }
 
       return true;
+    };
+  }
+
+  /**
+   * Efficient filtering with early termination
+   */
+  static filterData(
+    data: ServiceData[],
+    filters: DataFilterOptions,
+  ): ServiceData[] {
+    return data.filter(this.createFilterPredicate(filters));
+  }
+
+  /**
+   * Values of a dimension with the number of rows each would match under
+   * the other active filters, so choices narrow each other down
+   */
+  static getFacetCounts(
+    data: ServiceData[],
+    filters: DataFilterOptions,
+    dimension: FilterDimension,
+  ): FacetCount[] {
+    const matches = this.createFilterPredicate({
+      ...filters,
+      [dimension]: undefined,
     });
+    const counts = new Map<string, number>();
+
+    for (const item of data) {
+      const value = item[dimension];
+      if (value && matches(item)) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    }
+
+    return Array.from(counts, ([value, count]) => ({ value, count })).sort(
+      (a, b) => a.value.localeCompare(b.value),
+    );
   }
 
   /**
@@ -168,107 +443,112 @@ export class DataProcessor {
   }
 
   /**
-   * Optimized data categorization
+   * Categorize rows with the given rules (the built-in defaults if omitted)
    */
-  static categorizeServiceData(data: ServiceData[]): {
-    actionsMinutes: ServiceData[];
-    actionsStorage: ServiceData[];
-    packages: ServiceData[];
-    copilot: ServiceData[];
-    codespaces: ServiceData[];
-  } {
-    const categories = {
-      actionsMinutes: [] as ServiceData[],
-      actionsStorage: [] as ServiceData[],
-      packages: [] as ServiceData[],
-      copilot: [] as ServiceData[],
-      codespaces: [] as ServiceData[],
-    };
-
-    data.forEach((item) => {
-      const sku = item.sku.toLowerCase();
-
-      // Simple pattern matching for basic categorization
-      if (sku === "actions_storage") {
-        categories.actionsStorage.push(item);
-      } else if (
-        sku.includes("action") ||
-        sku.includes("minute") ||
-        sku.includes("linux") ||
-        sku.includes("windows") ||
-        sku.includes("macos")
-      ) {
-        categories.actionsMinutes.push(item);
-      } else if (sku.includes("package")) {
-        categories.packages.push(item);
-      } else if (sku.includes("copilot")) {
-        categories.copilot.push(item);
-      } else if (sku.includes("codespace")) {
-        categories.codespaces.push(item);
-      }
-    });
-
-    return categories;
+  static categorizeServiceData(
+    data: ServiceData[],
+    rules: CategorizationRule[] = DEFAULT_CATEGORIZATION_RULES,
+  ): CategorizedBillingData {
+    return categorizeWithRules(data, rules);
   }
 
   /**
-   * Efficient repository-based aggregation for large datasets
+   * Days on which an included quota ran out: the first day in each billing
+   * period with net spend, after earlier days of the period were fully
+   * discounted. Quotas reset when a new period starts.
    */
-  static aggregateByRepository(
-    data: ServiceData[],
-    topN: number = 10,
-    breakdown: "cost" | "quantity" = "quantity",
-  ): {
-    topRepos: string[];
-    repoTotals: Record<string, { cost: number; quantity: number }>;
-    dailyData: Record<string, any>;
-  } {
-    // First pass: calculate repository totals
-    const repoTotals: Record<string, { cost: number; quantity: number }> = {};
-
-    data.forEach((item) => {
-      const repo = item.repository || "Unknown";
-      if (!repoTotals[repo]) {
-        repoTotals[repo] = { cost: 0, quantity: 0 };
+  static findQuotaExhaustionDates(
+    daily: BucketTotals[],
+    billingCycleStartDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+  ): string[] {
+    const dates: string[] = [];
+    let period = "";
+    let coveredUsage = false;
+    let exhausted = false;
+
+    for (const day of daily) {
+      const dayPeriod = getBillingPeriod(day.date, billingCycleStartDay).key;
+      if (dayPeriod !== period) {
+        period = dayPeriod;
+        coveredUsage = false;
+        exhausted = false;
       }
-      repoTotals[repo].cost += item.cost;
-      repoTotals[repo].quantity += item.quantity;
-    });
+      if (exhausted) continue;
 
-    // Get top repositories
-    const topRepos = Object.entries(repoTotals)
-      .sort(([, a], [, b]) =>
-        breakdown === "cost" ? b.cost - a.cost : b.quantity - a.quantity,
-      )
-      .slice(0, topN)
-      .map(([repo]) => repo);
-
-    // Second pass: aggregate daily data
-    const dailyData: Record<string, any> = {};
-
-    data.forEach((item) => {
-      const date = item.date;
-      const repo = topRepos.includes(item.repository || "Unknown")
-        ? item.repository || "Unknown"
-        : "Others";
-
-      if (!dailyData[date]) {
-        dailyData[date] = { date, total: 0, totalQuantity: 0 };
-        topRepos.forEach((r) => {
-          dailyData[date][r] = 0;
-          dailyData[date][`${r}_quantity`] = 0;
-        });
-        dailyData[date]["Others"] = 0;
-        dailyData[date]["Others_quantity"] = 0;
+      if (day.cost > 0.005) {
+        if (coveredUsage) dates.push(day.date);
+        exhausted = true;
+      } else if (day.gross > 0) {
+        coveredUsage = true;
       }
+    }
 
-      dailyData[date][repo] = (dailyData[date][repo] || 0) + item.cost;
-      dailyData[date][`${repo}_quantity`] =
-        (dailyData[date][`${repo}_quantity`] || 0) + item.quantity;
-      dailyData[date].total += item.cost;
-      dailyData[date].totalQuantity += item.quantity;
-    });
+    return dates;
+  }
 
-    return { topRepos, repoTotals, dailyData };
+  /**
+   * Spend so far in the latest billing period of a daily series against
+   * the same number of days of the period before, so a partial period
+   * isn't compared with a full one
+   */
+  static compareLatestPeriods(
+    daily: BucketTotals[],
+    billingCycleStartDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+  ): PeriodComparison | null {
+    if (daily.length === 0) return null;
+
+    const end = daily[daily.length - 1].date;
+    const period = getBillingPeriod(end, billingCycleStartDay);
+    const previousPeriod = shiftBillingPeriod(
+      period,
+      -1,
+      billingCycleStartDay,
+    );
+    // Days elapsed in the latest period, capped to a shorter previous one
+    const elapsed = Math.round(
+      (Date.parse(end) - Date.parse(period.start)) / MS_PER_DAY,
+    );
+    const previousEnd = shiftDate(previousPeriod.start, elapsed);
+
+    const current = { start: period.start, end };
+    const previous = {
+      start: previousPeriod.start,
+      end: previousEnd < previousPeriod.end ? previousEnd : previousPeriod.end,
+    };
+
+    const sumBetween = (
+      range: typeof current,
+      read: (point: BucketTotals) => number,
+    ) =>
+      daily.reduce(
+        (sum, point) =>
+          point.date >= range.start && point.date <= range.end
+            ? sum + read(point)
+            : sum,
+        0,
+      );
+
+    const toChange = (currentCost: number, previousCost: number) => ({
+      current: currentCost,
+      previous: previousCost,
+      change:
+        previousCost > 0
+          ? ((currentCost - previousCost) / previousCost) * 100
+          : null,
+    });
+    const compare = (read: (point: BucketTotals) => number) =>
+      toChange(sumBetween(current, read), sumBetween(previous, read));
+
+    return {
+      current,
+      previous,
+      total: compare((point) => point.cost),
+      groups: Object.fromEntries(
+        Object.keys(daily[0].groups).map((key) => [
+          key,
+          compare((point) => point.groups[key].cost),
+        ]),
+      ),
+    };
   }
 }
@@ -0,0 +1,85 @@
+import {
+  DEFAULT_BILLING_CYCLE_START_DAY,
+  getBillingPeriod,
+  getFirstPeriodOf,
+  shiftBillingPeriod,
+  shiftDate,
+} from "@/lib/billingCycle";
+
+/**
+ * Quick date ranges for the filters. Ranges are relative to the last day
+ * in the report rather than today, so they stay useful on older exports,
+ * and months, quarters and years follow the billing cycle.
+ */
+
+export type DateRangePresetId =
+  | "last7Days"
+  | "last30Days"
+  | "last90Days"
+  | "monthToDate"
+  | "previousMonth"
+  | "quarterToDate"
+  | "yearToDate"
+  | "wholeReport";
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export const DATE_RANGE_PRESETS: { id: DateRangePresetId; label: string }[] = [
+  { id: "last7Days", label: "Last 7 days" },
+  { id: "last30Days", label: "Last 30 days" },
+  { id: "last90Days", label: "Last 90 days" },
+  { id: "monthToDate", label: "Month to date" },
+  { id: "previousMonth", label: "Previous month" },
+  { id: "quarterToDate", label: "Quarter to date" },
+  { id: "yearToDate", label: "Year to date" },
+  { id: "wholeReport", label: "Whole report" },
+];
+
+/**
+ * The range a preset covers, ending on the report's last day. The whole
+ * report is an empty range, which leaves dates unfiltered.
+ */
+export function getPresetRange(
+  preset: DateRangePresetId,
+  lastDate: string,
+  startDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): DateRange {
+  if (preset === "wholeReport" || !lastDate) return { start: "", end: "" };
+
+  const end = lastDate.substring(0, 10);
+  const period = getBillingPeriod(end, startDay);
+
+  switch (preset) {
+    case "last7Days":
+      return { start: shiftDate(end, -6), end };
+    case "last30Days":
+      return { start: shiftDate(end, -29), end };
+    case "last90Days":
+      return { start: shiftDate(end, -89), end };
+    case "monthToDate":
+      return { start: period.start, end };
+    case "previousMonth": {
+      const previous = shiftBillingPeriod(period, -1, startDay);
+      return { start: previous.start, end: previous.end };
+    }
+    case "quarterToDate":
+      return { start: getFirstPeriodOf("quarter", period, startDay).start, end };
+    case "yearToDate":
+      return { start: getFirstPeriodOf("year", period, startDay).start, end };
+  }
+}
+
+/** The preset that covers exactly this range, if any */
+export function findDateRangePreset(
+  range: DateRange,
+  lastDate: string,
+  startDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): DateRangePresetId | undefined {
+  return DATE_RANGE_PRESETS.find(({ id }) => {
+    const presetRange = getPresetRange(id, lastDate, startDay);
+    return presetRange.start === range.start && presetRange.end === range.end;
+  })?.id;
+}
@@ -0,0 +1,147 @@
+import {
+  DiagnosticKind,
+  ParseDiagnostics,
+  RowDiagnostic,
+  ServiceData,
+} from "@/types/billing";
+import { isISODate } from "@/lib/billingCycle";
+
+/**
+ * Row-level validation collected while parsing, so that skipped and
+ * suspicious rows can be reviewed instead of silently affecting totals.
+ */
+
+export interface RowIssue {
+  kind: DiagnosticKind;
+  message: string;
+  rejected?: boolean;
+}
+
+export type ReportIssue = (issue: RowIssue) => void;
+
+export const DIAGNOSTIC_LABELS: Record<DiagnosticKind, string> = {
+  skippedRow: "Skipped rows",
+  invalidNumber: "Unparseable numbers",
+  negativeAmount: "Negative amounts",
+  futureDate: "Future dates",
+  unknownSku: "Unknown SKUs",
+};
+
+// Warnings kept per kind, enough to review them without holding every row
+// twice. Rejected rows are always kept, as they are left out of the totals
+// and the download of their raw values is what accounts for them.
+const MAX_WARNINGS_PER_KIND = 5000;
+
+export function createDiagnosticsCollector() {
+  let header: string[] = [];
+  let rejectedRows = 0;
+  const counts: Partial<Record<DiagnosticKind, number>> = {};
+  const keptWarnings: Partial<Record<DiagnosticKind, number>> = {};
+  const issues: RowDiagnostic[] = [];
+
+  const setHeader = (columns: string[]) => {
+    header = columns;
+  };
+
+  const add = (line: number, values: string[], issue: RowIssue) => {
+    counts[issue.kind] = (counts[issue.kind] || 0) + 1;
+    if (issue.rejected) {
+      rejectedRows++;
+    } else {
+      const kept = (keptWarnings[issue.kind] || 0) + 1;
+      keptWarnings[issue.kind] = kept;
+      if (kept > MAX_WARNINGS_PER_KIND) return;
+    }
+
+    issues.push({
+      kind: issue.kind,
+      line,
+      message: issue.message,
+      rejected: Boolean(issue.rejected),
+      values,
+    });
+  };
+
+  const result = (fileName = ""): ParseDiagnostics => ({
+    fileName,
+    header,
+    counts,
+    rejectedRows,
+    issues,
+  });
+
+  return { setHeader, add, result };
+}
+
+/**
+ * Check a mapped row for values that make totals suspect. Returns false
+ * when the row has to be rejected.
+ */
+export function validateServiceData(
+  item: ServiceData,
+  report: ReportIssue,
+  latestValidTime: number,
+): boolean {
+  const time = Date.parse(item.date);
+  if (!isISODate(item.date) || isNaN(time)) {
+    report({
+      kind: "skippedRow",
+      rejected: true,
+      message: `Invalid date "${item.date}", expected YYYY-MM-DD`,
+    });
+    return false;
+  }
+
+  if (time > latestValidTime) {
+    report({
+      kind: "futureDate",
+      message: `Date ${item.date} is in the future`,
+    });
+  }
+
+  const amounts: [string, number | undefined][] = [
+    ["net amount", item.cost],
+    ["quantity", item.quantity],
+    ["gross amount", item.grossAmount],
+  ];
+  const negatives = amounts.filter(
+    ([, value]) => value !== undefined && value < 0,
+  );
+  if (negatives.length > 0) {
+    report({
+      kind: "negativeAmount",
+      message: `Negative ${negatives
+        .map(([label, value]) => `${label} (${value})`)
+        .join(", ")}`,
+    });
+  }
+
+  return true;
+}
+
+export function countIssues(diagnostics: ParseDiagnostics[]): number {
+  return diagnostics.reduce(
+    (sum, file) =>
+      sum + Object.values(file.counts).reduce((a, b) => a + (b || 0), 0),
+    0,
+  );
+}
+
+function toCSVField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serialize the rejected rows of a file, prefixed with where they were
+ * found and why they were rejected
+ */
+export function rejectedRowsToCSV(diagnostics: ParseDiagnostics): string {
+  const rows = [
+    ["line", "reason", ...diagnostics.header],
+    ...diagnostics.issues
+      .filter((issue) => issue.rejected)
+      .map((issue) => [issue.line, issue.message, ...issue.values]),
+  ];
+  return rows.map((row) => row.map(toCSVField).join(",")).join("\r\n");
+}
@@ -3,217 +3,452 @@ import {
   GitHubBillingReport,
   FileUploadResult,
   CategorizedBillingData,
-  ServiceData,
+  ParseDiagnostics,
+  ParseProgress,
+  ReportFormatId,
 } from "@/types/billing";
+import {
+  CSVRecord,
+  CSVTokenizer,
+  ReadCSVOptions,
+  readCSVRecords,
+} from "@/lib/csvTokenizer";
+import { readFileRecords } from "@/lib/inputReaders";
+import {
+  CategorizationRule,
+  DEFAULT_CATEGORIZATION_RULES,
+  addToCategory,
+  createEmptyCategorizedData,
+  createRuleMatcher,
+} from "@/lib/categorizationRules";
+import {
+  ColumnIndices,
+  ColumnMapping,
+  ReportFormat,
+  RowMapper,
+  detectReportFormat,
+  getMissingFields,
+  getReportFormat,
+  resolveColumns,
+} from "@/lib/reportFormats";
+import {
+  RowIssue,
+  createDiagnosticsCollector,
+  validateServiceData,
+} from "@/lib/diagnostics";
+import { SERVICE_REGISTRY } from "@/lib/serviceRegistry";
+import {
+  DEFAULT_BILLING_CYCLE_START_DAY,
+  formatBillingPeriod,
+  getBillingPeriod,
+  getBillingPeriodByKey,
+} from "@/lib/billingCycle";
+import { DataProcessor } from "@/lib/dataProcessor";
 
-export function parseCSV(csvContent: string): {
-  data: BillingData[];
-  categorizedData: CategorizedBillingData;
-} {
-  const lines = csvContent.trim().split("\n");
+/**
+ * Normalize a header cell, dropping any BOM and stray quotes that
+ * some exports wrap around column names (e.g. `"\uFEFF""date"""`).
+ */
+function normalizeHeader(cell: string): string {
+  return cell.replace(/\uFEFF/g, "").replace(/"/g, "").trim();
+}
 
-  if (lines.length < 2) {
-    throw new Error("CSV file appears to be empty or invalid");
-  }
+/**
+ * Incrementally categorize CSV records into a billing report, so that
+ * rows can be fed one at a time from a streaming tokenizer.
+ */
+function createReportBuilder(
+  rules: CategorizationRule[],
+  columnMapping?: ColumnMapping,
+  billingCycleStartDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+) {
+  let header: string[] | null = null;
+  let format: ReportFormat | null = null;
+  let mapRow: RowMapper | null = null;
+  let rowCount = 0;
 
-  // Parse header
-  const header = lines[0].split(",").map((h) => h.replace(/"/g, "").trim());
+  const categorizedData = createEmptyCategorizedData();
+  const matchRule = createRuleMatcher(rules);
+  const diagnostics = createDiagnosticsCollector();
 
-  // Find column indices (flexible matching)
-  const dateIndex = header.findIndex((h) => h.toLowerCase().includes("date"));
-  const productIndex = header.findIndex((h) =>
-    h.toLowerCase().includes("product"),
-  );
-  const skuIndex = header.findIndex((h) => h.toLowerCase().includes("sku"));
-  const quantityIndex = header.findIndex((h) =>
-    h.toLowerCase().includes("quantity"),
-  );
-  const netAmountIndex = header.findIndex((h) =>
-    h.toLowerCase().includes("net_amount"),
-  );
-  const organizationIndex = header.findIndex((h) =>
-    h.toLowerCase().includes("organization"),
-  );
-  const repositoryIndex = header.findIndex((h) =>
-    h.toLowerCase().includes("repository"),
-  );
-  const costCenterIndex = header.findIndex(
-    (h) =>
-      h.toLowerCase().includes("cost_center") ||
-      h.toLowerCase().includes("costcenter"),
-  );
+  // Anything after the end of today is flagged as a future date
+  const endOfToday = new Date().setHours(23, 59, 59, 999);
 
-  const categorizedData: CategorizedBillingData = {
-    actionsMinutes: [],
-    actionsStorage: [],
-    packages: [],
-    copilot: [],
-    codespaces: [],
-  };
+  const addRecord = (record: CSVRecord) => {
+    if (!header || !mapRow) {
+      if (record.error) {
+        throw new Error(`The header could not be read: ${record.error}`);
+      }
+      header = record.fields.map(normalizeHeader);
+      format =
+        (columnMapping && getReportFormat(columnMapping.format)) ||
+        detectReportFormat(header);
+      const columns =
+        columnMapping?.columns || resolveColumns(format, header).columns;
+
+      const missing = getMissingFields(format, columns);
+      if (missing.length > 0) {
+        throw new Error(
+          `Required column${missing.length > 1 ? "s" : ""} not found: ` +
+            `${missing.map((field) => field.label).join(", ")}. ` +
+            "Map them in the column preview and try again.",
+        );
+      }
+
+      mapRow = format.createRowMapper(header, columns);
+      diagnostics.setHeader(header);
+      return;
+    }
+
+    rowCount++;
+
+    const values = record.fields.map((v) => v.trim());
+    const report = (issue: RowIssue) =>
+      diagnostics.add(record.line, values, issue);
+
+    if (record.error) {
+      report({ kind: "skippedRow", rejected: true, message: record.error });
+      return;
+    }
 
-  // Parse data rows
-  lines.slice(1).forEach((line, index) => {
     try {
-      const values = line.split(",").map((v) => v.replace(/"/g, "").trim());
-
-      if (values.length < header.length) return; // Skip incomplete rows
-
-      const date = values[dateIndex];
-      const product = values[productIndex];
-      const sku = values[skuIndex];
-      const quantity = parseFloat(values[quantityIndex]) || 0;
-      const netAmount = parseFloat(values[netAmountIndex]) || 0;
-      const organization = values[organizationIndex] || "";
-      const repository = values[repositoryIndex] || "";
-      const costCenter = values[costCenterIndex] || "";
-
-      if (!date || !product || !sku) return; // Skip rows with missing essential data
-
-      const serviceData: ServiceData = {
-        date,
-        cost: netAmount,
-        quantity,
-        sku,
-        organization,
-        repository,
-        costCenter,
-      };
+      if (values.length < header.length) {
+        report({
+          kind: "skippedRow",
+          rejected: true,
+          message: `Expected ${header.length} columns, found ${values.length}`,
+        });
+        return;
+      }
+
+      const serviceData = mapRow(values, report);
+      if (!serviceData) return;
+      if (!validateServiceData(serviceData, report, endOfToday)) return;
 
-      const normalizedSku = sku.toLowerCase();
-
-      // Categorize by product and sku
-      switch (product.toLowerCase()) {
-        case "actions":
-          if (normalizedSku === "actions_storage") {
-            categorizedData.actionsStorage.push(serviceData);
-          } else if (
-            normalizedSku.includes("linux") ||
-            normalizedSku.includes("windows") ||
-            normalizedSku.includes("macos") ||
-            normalizedSku.includes("self_hosted")
-          ) {
-            categorizedData.actionsMinutes.push(serviceData);
-          }
-          break;
-        case "packages":
-          categorizedData.packages.push(serviceData);
-          break;
-        case "copilot":
-          categorizedData.copilot.push(serviceData);
-          break;
-        case "codespaces":
-          categorizedData.codespaces.push(serviceData);
-          break;
+      const rule = matchRule(serviceData);
+      if (!rule) {
+        report({
+          kind: "unknownSku",
+          message: `No rule matches ${serviceData.product} / ${serviceData.sku}`,
+        });
       }
+      addToCategory(categorizedData, rule?.category, serviceData);
     } catch (error) {
-      console.warn(`Error parsing row ${index + 2}:`, error);
+      report({
+        kind: "skippedRow",
+        rejected: true,
+        message: error instanceof Error ? error.message : String(error),
+      });
     }
+  };
+
+  const getRowCount = () => rowCount;
+
+  const finish = () => {
+    if (!header || !format) {
+      throw new Error("File appears to be empty or invalid");
+    }
+    return {
+      ...summarizeCategorizedData(categorizedData, billingCycleStartDay),
+      format: format.id,
+      diagnostics: diagnostics.result(),
+    };
+  };
+
+  return { addRecord, getRowCount, finish };
+}
+
+export interface ReportPreview {
+  header: string[];
+  rows: string[][];
+  format: ReportFormatId; // Detected format
+  columns: ColumnIndices; // Detected columns
+  ambiguous: string[]; // Fields that several columns could fill
+}
+
+/**
+ * Read the header and first rows of an export, along with the columns
+ * detection picks, so the mapping can be reviewed before parsing
+ */
+export async function previewFile(
+  file: File,
+  rowLimit = 5,
+): Promise<ReportPreview> {
+  const records: CSVRecord[] = [];
+
+  for await (const record of readFileRecords(file)) {
+    // Malformed rows are reported when parsing; only the header matters
+    if (record.error && records.length > 0) continue;
+    records.push(record);
+    if (records.length > rowLimit) break;
+  }
+
+  if (records.length === 0) {
+    throw new Error("File appears to be empty or invalid");
+  }
+  if (records[0].error) {
+    throw new Error(`The header could not be read: ${records[0].error}`);
+  }
+
+  const header = records[0].fields.map(normalizeHeader);
+  const format = detectReportFormat(header);
+
+  return {
+    header,
+    rows: records.slice(1).map((record) => record.fields.map((v) => v.trim())),
+    format: format.id,
+    ...resolveColumns(format, header),
+  };
+}
+
+export interface ParsedReport {
+  data: BillingData[];
+  categorizedData: CategorizedBillingData;
+  format: ReportFormatId;
+  diagnostics: ParseDiagnostics;
+}
+
+export function parseCSV(
+  csvContent: string,
+  rules: CategorizationRule[] = DEFAULT_CATEGORIZATION_RULES,
+  billingCycleStartDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): ParsedReport {
+  const tokenizer = new CSVTokenizer();
+  const builder = createReportBuilder(
+    rules,
+    undefined,
+    billingCycleStartDay,
+  );
+
+  tokenizer.push(csvContent).forEach(builder.addRecord);
+  tokenizer.end().forEach(builder.addRecord);
+
+  return builder.finish();
+}
+
+export interface ParseOptions {
+  rules?: CategorizationRule[];
+  columnMapping?: ColumnMapping; // Overrides header detection
+  billingCycleStartDay?: number; // Day of the month summary periods start
+  signal?: AbortSignal;
+  onProgress?: (progress: ParseProgress) => void;
+  totalBytes?: number;
+}
+
+/**
+ * Feed records into a report builder, reporting progress once per chunk
+ * with the rows completed so far
+ */
+async function parseRecords(
+  readRecords: (options: ReadCSVOptions) => AsyncIterable<CSVRecord>,
+  options: ParseOptions,
+): Promise<ParsedReport> {
+  const {
+    rules = DEFAULT_CATEGORIZATION_RULES,
+    columnMapping,
+    billingCycleStartDay,
+    signal,
+    onProgress,
+    totalBytes = 0,
+  } = options;
+  const builder = createReportBuilder(
+    rules,
+    columnMapping,
+    billingCycleStartDay,
+  );
+
+  const records = readRecords({
+    signal,
+    onBytesRead: (bytesRead) =>
+      onProgress?.({
+        rowsParsed: builder.getRowCount(),
+        bytesRead,
+        totalBytes,
+      }),
+  });
+
+  for await (const record of records) {
+    builder.addRecord(record);
+  }
+
+  return builder.finish();
+}
+
+/**
+ * Parse a CSV byte stream chunk by chunk without buffering the whole file
+ */
+export function parseCSVStream(
+  stream: ReadableStream<Uint8Array>,
+  options: ParseOptions = {},
+): Promise<ParsedReport> {
+  return parseRecords(
+    (readOptions) => readCSVRecords(stream, readOptions),
+    options,
+  );
+}
+
+/**
+ * Parse an uploaded export in any supported format (CSV, JSON, XLSX,
+ * gzip or ZIP), streaming it where the format allows
+ */
+export function parseFile(
+  file: File,
+  options: ParseOptions = {},
+): Promise<ParsedReport> {
+  return parseRecords((readOptions) => readFileRecords(file, readOptions), {
+    ...options,
+    totalBytes: options.totalBytes ?? file.size,
   });
+}
 
+/**
+ * Build the monthly summary that accompanies categorized data, with one
+ * entry per billing period
+ */
+export function summarizeCategorizedData(
+  categorizedData: CategorizedBillingData,
+  billingCycleStartDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): {
+  data: BillingData[];
+  categorizedData: CategorizedBillingData;
+} {
   // Create summary data for backward compatibility
   const monthlyData = new Map<
     string,
-    { actions: number; packages: number; storage: number }
+    {
+      actions: number;
+      packages: number;
+      storage: number;
+      services: Record<string, number>;
+    }
   >();
 
-  // Aggregate by month
-  Object.values(categorizedData)
-    .flat()
-    .forEach((item) => {
-      const monthKey = item.date.substring(0, 7); // YYYY-MM format
+  // Aggregate by billing period, keyed by the month it starts in
+  SERVICE_REGISTRY.forEach((service) => {
+    (categorizedData[service.id] || []).forEach((item) => {
+      const monthKey = getBillingPeriod(item.date, billingCycleStartDay).key;
       if (!monthlyData.has(monthKey)) {
-        monthlyData.set(monthKey, { actions: 0, packages: 0, storage: 0 });
+        monthlyData.set(monthKey, {
+          actions: 0,
+          packages: 0,
+          storage: 0,
+          services: {},
+        });
       }
 
-      const monthData = monthlyData.get(monthKey)!;
-
-      // Categorize costs for the summary
-      if (categorizedData.actionsMinutes.includes(item)) {
-        monthData.actions += item.cost;
-      } else if (categorizedData.packages.includes(item)) {
-        monthData.packages += item.cost;
-      } else if (categorizedData.actionsStorage.includes(item)) {
-        monthData.storage += item.cost;
+      const month = monthlyData.get(monthKey)!;
+      month.services[service.id] =
+        (month.services[service.id] || 0) + item.cost;
+      // The legacy buckets only cover the services that map onto them
+      if (service.summaryKey) {
+        month[service.summaryKey] += item.cost;
       }
     });
+  });
 
   const data = Array.from(monthlyData.entries())
     .sort(([a], [b]) => a.localeCompare(b))
-    .map(([month, values]) => ({
-      month: new Date(month + "-01").toLocaleDateString("en-US", {
-        month: "short",
-      }),
-      ...values,
-      total: values.actions + values.packages + values.storage,
-    }));
+    .map(([month, values]) => {
+      const period = getBillingPeriodByKey(month, billingCycleStartDay);
+      return {
+        month: formatBillingPeriod(period, billingCycleStartDay),
+        period: { start: period.start, end: period.end },
+        ...values,
+        total: Object.values(values.services).reduce((a, b) => a + b, 0),
+      };
+    });
 
   return { data, categorizedData };
 }
 
-export async function processFile(file: File): Promise<FileUploadResult> {
-  try {
-    const content = await file.text();
-    const fileExtension = file.name.split(".").pop()?.toLowerCase();
+/**
+ * Assemble a report, deriving its date range and primary organization
+ * from the categorized rows
+ */
+export function buildReport(
+  data: BillingData[],
+  categorizedData: CategorizedBillingData,
+): GitHubBillingReport {
+  // Determine date range from categorized data
+  const allDates = Object.values(categorizedData)
+    .flat()
+    .map((item) => item.date)
+    .sort();
+  const startDate = allDates[0] || "";
+  const endDate = allDates[allDates.length - 1] || "";
 
-    if (fileExtension !== "csv") {
-      return {
-        success: false,
-        error: "Invalid file format. Please upload a CSV file.",
-      };
-    }
+  // Get primary organization
+  const organizations = Object.values(categorizedData)
+    .flat()
+    .map((item) => item.organization)
+    .filter((org): org is string => Boolean(org))
+    .reduce(
+      (acc, org) => {
+        acc[org] = (acc[org] || 0) + 1;
+        return acc;
+      },
+      {} as Record<string, number>,
+    );
+
+  const primaryOrganization =
+    Object.keys(organizations).sort(
+      (a, b) => organizations[b] - organizations[a],
+    )[0] || "Unknown";
+
+  return {
+    organization: primaryOrganization,
+    period: {
+      start: startDate,
+      end: endDate,
+    },
+    data,
+    categorizedData,
+  };
+}
 
-    const { data, categorizedData } = parseCSV(content);
+export async function processFile(
+  file: File,
+  options: ParseOptions = {},
+): Promise<FileUploadResult> {
+  try {
+    const parsed = await parseFile(file, options);
+    const { data, categorizedData, format } = parsed;
+    const diagnostics = { ...parsed.diagnostics, fileName: file.name };
 
     if (data.length === 0) {
       return {
         success: false,
-        error: "No billing data found in the CSV file.",
+        error: "No billing data found in the file.",
+        diagnostics,
       };
     }
 
-    // Determine date range from categorized data
-    const allDates = Object.values(categorizedData)
-      .flat()
-      .map((item) => item.date)
-      .sort();
-    const startDate = allDates[0] || "";
-    const endDate = allDates[allDates.length - 1] || "";
-
-    // Get primary organization
-    const organizations = Object.values(categorizedData)
-      .flat()
-      .map((item) => item.organization)
-      .filter((org) => org)
-      .reduce(
-        (acc, org) => {
-          acc[org] = (acc[org] || 0) + 1;
-          return acc;
-        },
-        {} as Record<string, number>,
-      );
-
-    const primaryOrganization =
-      Object.keys(organizations).sort(
-        (a, b) => organizations[b] - organizations[a],
-      )[0] || "Unknown";
+    const report = buildReport(data, categorizedData);
+    const rows = Object.values(categorizedData).flat();
 
     return {
       success: true,
       data: {
-        organization: primaryOrganization,
-        period: {
-          start: startDate,
-          end: endDate,
-        },
-        data,
-        categorizedData,
+        ...report,
+        sources: [
+          {
+            fileName: file.name,
+            format,
+            rowCount: rows.length,
+            duplicateCount: 0,
+            period: report.period,
+            organizations: DataProcessor.getUniqueValues(rows, "organization"),
+          },
+        ],
       },
+      diagnostics,
     };
   } catch (error) {
+    if (options.signal?.aborted) throw error;
     return {
       success: false,
       error:
-        error instanceof Error ? error.message : "Failed to process CSV file.",
+        error instanceof Error ? error.message : "Failed to process file.",
     };
   }
 }
@@ -0,0 +1,414 @@
+import {
+  AmountCondition,
+  AmountField,
+  ComparisonOperator,
+  DimensionFilter,
+  FILTER_DIMENSIONS,
+  FilterDimension,
+} from "@/lib/dataProcessor";
+import { shiftDate } from "@/lib/billingCycle";
+import { EMPTY_FILTERS, FilterState } from "@/lib/filters";
+
+/**
+ * A small query language for filters, such as
+ * `org:acme repo:~^svc- sku:~macos cost>5 date>=2025-08-01 -cc:platform`.
+ *
+ * Terms are separated by spaces and all have to match. `field:value`
+ * matches a value exactly, like picking it in a dropdown, and
+ * `field:~pattern` by case-insensitive regular expression;
+ * repeating a field matches any of its values, and a leading `-` excludes
+ * instead. Dates and amounts compare with `:`, `>`, `>=`, `<` and `<=`.
+ * Queries parse into the same `FilterState` the dropdowns edit, and
+ * `formatFilterQuery` turns it back into a query.
+ */
+
+export type QueryFieldKind = "dimension" | "date" | "amount";
+
+export interface QueryField {
+  name: string; // Canonical name, used when formatting
+  aliases: string[];
+  kind: QueryFieldKind;
+  description: string;
+  dimension?: FilterDimension;
+  amountField?: AmountField;
+}
+
+export const QUERY_FIELDS: QueryField[] = [
+  {
+    name: "org",
+    aliases: ["organization"],
+    kind: "dimension",
+    description: "Organization",
+    dimension: "organization",
+  },
+  {
+    name: "repo",
+    aliases: ["repository"],
+    kind: "dimension",
+    description: "Repository",
+    dimension: "repository",
+  },
+  {
+    name: "cc",
+    aliases: ["costcenter", "cost_center"],
+    kind: "dimension",
+    description: "Cost center",
+    dimension: "costCenter",
+  },
+  {
+    name: "sku",
+    aliases: [],
+    kind: "dimension",
+    description: "SKU",
+    dimension: "sku",
+  },
+  {
+    name: "date",
+    aliases: [],
+    kind: "date",
+    description: "Usage date (YYYY-MM-DD)",
+  },
+  {
+    name: "cost",
+    aliases: ["net"],
+    kind: "amount",
+    description: "Net cost of a row",
+    amountField: "cost",
+  },
+  {
+    name: "qty",
+    aliases: ["quantity"],
+    kind: "amount",
+    description: "Quantity of a row",
+    amountField: "quantity",
+  },
+];
+
+export interface QueryError {
+  message: string;
+  start: number; // Offending range in the query
+  end: number;
+}
+
+export type ParsedQuery =
+  | { filters: FilterState; error: null }
+  | { filters: null; error: QueryError };
+
+interface QueryToken {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const TERM_PATTERN = /^(-?)([A-Za-z_]+)(>=|<=|:|=|>|<)(.*)$/;
+const FIELD_PREFIX_PATTERN = /^-?[A-Za-z_]*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function findField(name: string): QueryField | undefined {
+  const lower = name.toLowerCase();
+  return QUERY_FIELDS.find(
+    (field) => field.name === lower || field.aliases.includes(lower),
+  );
+}
+
+function fieldOfDimension(dimension: FilterDimension): QueryField {
+  return QUERY_FIELDS.find((field) => field.dimension === dimension)!;
+}
+
+/** Split a query on whitespace outside double quotes */
+function tokenize(query: string): QueryToken[] | QueryError {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let quoted = false;
+    let quoteStart = 0;
+    while (i < query.length && (quoted || !/\s/.test(query[i]))) {
+      if (query[i] === "\\" && quoted) {
+        i += 2;
+        continue;
+      }
+      if (query[i] === '"') {
+        quoted = !quoted;
+        quoteStart = i;
+      }
+      i++;
+    }
+
+    if (quoted) {
+      return {
+        message: "Missing closing quote",
+        start: quoteStart,
+        end: query.length,
+      };
+    }
+    tokens.push({ text: query.slice(start, i), start, end: i });
+  }
+
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.startsWith('"') && value.endsWith('"') && value.length > 1
+    ? value.slice(1, -1).replace(/\\(.)/g, "$1")
+    : value;
+}
+
+function quote(value: string): string {
+  return value === "" || /[\s"]/.test(value) || value.startsWith("~")
+    ? `"${value.replace(/(["\\])/g, "\\$1")}"`
+    : value;
+}
+
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  // Rejects dates such as 2025-02-30 that would roll over
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function addToList(list: string[] | undefined, value: string): string[] {
+  return list?.includes(value) ? list : [...(list || []), value];
+}
+
+/** Parse a query into filters, or the first error in it */
+export function parseFilterQuery(query: string): ParsedQuery {
+  const tokens = tokenize(query);
+  if (!Array.isArray(tokens)) return { filters: null, error: tokens };
+
+  const filters: FilterState = {
+    ...EMPTY_FILTERS,
+    dateRange: { start: "", end: "" },
+    amounts: [],
+  };
+  const fail = (token: QueryToken, message: string): ParsedQuery => ({
+    filters: null,
+    error: { message, start: token.start, end: token.end },
+  });
+
+  for (const token of tokens) {
+    const match = token.text.match(TERM_PATTERN);
+    if (!match) {
+      return fail(
+        token,
+        `Expected a filter such as org:acme, but found "${token.text}"`,
+      );
+    }
+
+    const [, negation, name, operator, rawValue] = match;
+    const field = findField(name);
+    if (!field) {
+      return fail(
+        token,
+        `Unknown field "${name}". Use one of ${QUERY_FIELDS.map(
+          (f) => f.name,
+        ).join(", ")}`,
+      );
+    }
+    if (!rawValue) {
+      return fail(token, `Missing a value after "${name}${operator}"`);
+    }
+
+    if (field.kind === "dimension") {
+      if (operator !== ":" && operator !== "=") {
+        return fail(
+          token,
+          `${field.name} can only be matched with ":", as in ${field.name}:value`,
+        );
+      }
+
+      const dimension = field.dimension!;
+      const isPattern = rawValue.startsWith("~");
+      const value = unquote(isPattern ? rawValue.slice(1) : rawValue);
+      if (isPattern) {
+        try {
+          new RegExp(value, "i");
+        } catch (error) {
+          return fail(
+            token,
+            `Invalid pattern in ${field.name}:~${value}: ${
+              error instanceof Error ? error.message : error
+            }`,
+          );
+        }
+      }
+
+      const mode: keyof DimensionFilter = isPattern
+        ? negation
+          ? "excludePatterns"
+          : "includePatterns"
+        : negation
+        ? "exclude"
+        : "include";
+      filters[dimension] = {
+        ...filters[dimension],
+        [mode]: addToList(filters[dimension][mode], value),
+      };
+      continue;
+    }
+
+    if (negation) {
+      return fail(
+        token,
+        `${field.name} can't be negated; use the opposite comparison instead`,
+      );
+    }
+    const value = unquote(rawValue);
+
+    if (field.kind === "date") {
+      if (!isValidDate(value)) {
+        return fail(token, `"${value}" is not a date in YYYY-MM-DD format`);
+      }
+
+      // Keep the narrowest range when several bounds are given
+      const { dateRange } = filters;
+      const raiseStart = (start: string) => {
+        if (!dateRange.start || start > dateRange.start) {
+          dateRange.start = start;
+        }
+      };
+      const lowerEnd = (end: string) => {
+        if (!dateRange.end || end < dateRange.end) dateRange.end = end;
+      };
+
+      if (operator === ">") raiseStart(shiftDate(value, 1));
+      if (operator === ">=" || operator === ":" || operator === "=") {
+        raiseStart(value);
+      }
+      if (operator === "<") lowerEnd(shiftDate(value, -1));
+      if (operator === "<=" || operator === ":" || operator === "=") {
+        lowerEnd(value);
+      }
+      continue;
+    }
+
+    const amount = Number(value);
+    if (value.trim() === "" || !Number.isFinite(amount)) {
+      return fail(token, `"${value}" is not a number`);
+    }
+    filters.amounts.push({
+      field: field.amountField!,
+      operator: (operator === ":" ? "=" : operator) as ComparisonOperator,
+      value: amount,
+    });
+  }
+
+  return { filters, error: null };
+}
+
+/** Format filters as a query that parses back into the same filters */
+export function formatFilterQuery(filters: FilterState): string {
+  const terms: string[] = [];
+
+  for (const dimension of FILTER_DIMENSIONS) {
+    const { name } = fieldOfDimension(dimension);
+    const filter = filters[dimension];
+    filter.include.forEach((v) => terms.push(`${name}:${quote(v)}`));
+    filter.includePatterns?.forEach((v) => terms.push(`${name}:~${quote(v)}`));
+    filter.exclude.forEach((v) => terms.push(`-${name}:${quote(v)}`));
+    filter.excludePatterns?.forEach((v) =>
+      terms.push(`-${name}:~${quote(v)}`),
+    );
+  }
+
+  const { start, end } = filters.dateRange;
+  if (start && start === end) {
+    terms.push(`date:${start}`);
+  } else {
+    if (start) terms.push(`date>=${start}`);
+    if (end) terms.push(`date<=${end}`);
+  }
+
+  filters.amounts.forEach((condition: AmountCondition) => {
+    const field = QUERY_FIELDS.find(
+      (f) => f.amountField === condition.field,
+    )!;
+    const operator = condition.operator === "=" ? ":" : condition.operator;
+    terms.push(`${field.name}${operator}${condition.value}`);
+  });
+
+  return terms.join(" ");
+}
+
+export interface QuerySuggestion {
+  label: string;
+  detail: string;
+  text: string; // Replaces the term being typed
+}
+
+export interface QuerySuggestions {
+  start: number; // Range of the query the suggestion text replaces
+  end: number;
+  suggestions: QuerySuggestion[];
+}
+
+/**
+ * Field names, or known values of the field, that complete the term at
+ * the cursor
+ */
+export function getQuerySuggestions(
+  query: string,
+  cursor: number,
+  values: Partial<Record<FilterDimension, string[]>>,
+  limit: number = 8,
+): QuerySuggestions {
+  const before = query.slice(0, cursor);
+  const start = before.search(/\S*$/);
+  const after = query.slice(cursor).search(/\s|$/);
+  const end = cursor + after;
+  const prefix = query.slice(start, cursor);
+  const none = { start, end, suggestions: [] };
+
+  // Nothing typed yet, so Enter still applies the query
+  if (!prefix) return none;
+
+  if (FIELD_PREFIX_PATTERN.test(prefix)) {
+    const negation = prefix.startsWith("-") ? "-" : "";
+    const typed = prefix.slice(negation.length).toLowerCase();
+    const suggestions = QUERY_FIELDS.filter(
+      (field) =>
+        (!negation || field.kind === "dimension") &&
+        [field.name, ...field.aliases].some((n) => n.startsWith(typed)),
+    ).map((field) => {
+      const operator =
+        field.kind === "dimension" ? ":" : field.kind === "date" ? ">=" : ">";
+      return {
+        label: `${negation}${field.name}${operator}`,
+        detail: field.description,
+        text: `${negation}${field.name}${operator}`,
+      };
+    });
+    return { start, end, suggestions: suggestions.slice(0, limit) };
+  }
+
+  const match = prefix.match(TERM_PATTERN);
+  const field = match && findField(match[2]);
+  if (!match || !field?.dimension || !/^[:=]$/.test(match[3])) return none;
+  if (match[4].startsWith("~")) return none;
+
+  const typed = match[4].replace(/^"/, "").toLowerCase();
+  const known = values[field.dimension] || [];
+  const matching = known
+    .filter((value) => value.toLowerCase().includes(typed))
+    .sort(
+      (a, b) =>
+        Number(!a.toLowerCase().startsWith(typed)) -
+        Number(!b.toLowerCase().startsWith(typed)),
+    );
+
+  return {
+    start,
+    end,
+    suggestions: matching.slice(0, limit).map((value) => ({
+      label: value,
+      detail: field.description,
+      text: `${match[1]}${field.name}:${quote(value)}`,
+    })),
+  };
+}
@@ -0,0 +1,165 @@
+import { ColumnarDataset, RowSelection } from "@/lib/columnarDataset";
+import {
+  AmountCondition,
+  DataFilterOptions,
+  DimensionFilter,
+  FILTER_DIMENSIONS,
+  FilterDimension,
+} from "@/lib/dataProcessor";
+
+/**
+ * The filter model shared by the global filter bar and the per-tab
+ * overrides. Empty values leave a dimension unfiltered.
+ */
+
+export interface FilterState {
+  dateRange: {
+    start: string;
+    end: string;
+  };
+  organization: DimensionFilter;
+  repository: DimensionFilter;
+  costCenter: DimensionFilter;
+  sku: DimensionFilter;
+  amounts: AmountCondition[]; // Only set through filter queries
+}
+
+export type FilterChip =
+  | { key: string; label: string; kind: "startDate" | "endDate" }
+  | {
+      key: string;
+      label: string;
+      kind: "dimension";
+      dimension: FilterDimension;
+      mode: keyof DimensionFilter;
+      value: string;
+    }
+  | { key: string; label: string; kind: "amount"; index: number };
+
+export const DIMENSION_LABELS: Record<FilterDimension, string> = {
+  organization: "Org",
+  repository: "Repo",
+  costCenter: "Cost center",
+  sku: "SKU",
+};
+
+const EMPTY_DIMENSION: DimensionFilter = { include: [], exclude: [] };
+
+export const EMPTY_FILTERS: FilterState = {
+  dateRange: { start: "", end: "" },
+  organization: EMPTY_DIMENSION,
+  repository: EMPTY_DIMENSION,
+  costCenter: EMPTY_DIMENSION,
+  sku: EMPTY_DIMENSION,
+  amounts: [],
+};
+
+// How each list of a dimension filter reads on a chip
+const MODE_OPERATORS: Record<keyof DimensionFilter, string> = {
+  include: ":",
+  exclude: " ≠",
+  includePatterns: " ~",
+  excludePatterns: " !~",
+};
+const DIMENSION_MODES = Object.keys(
+  MODE_OPERATORS,
+) as (keyof DimensionFilter)[];
+
+/** One removable chip per active filter value, in display order */
+export function getFilterChips(filters: FilterState): FilterChip[] {
+  const chips: FilterChip[] = [];
+  if (filters.dateRange.start) {
+    chips.push({
+      key: "startDate",
+      label: `From ${filters.dateRange.start}`,
+      kind: "startDate",
+    });
+  }
+  if (filters.dateRange.end) {
+    chips.push({
+      key: "endDate",
+      label: `To ${filters.dateRange.end}`,
+      kind: "endDate",
+    });
+  }
+
+  for (const dimension of FILTER_DIMENSIONS) {
+    const label = DIMENSION_LABELS[dimension];
+    for (const mode of DIMENSION_MODES) {
+      for (const value of filters[dimension][mode] || []) {
+        chips.push({
+          key: `${dimension}:${mode}:${value}`,
+          label: `${label}${MODE_OPERATORS[mode]} ${value}`,
+          kind: "dimension",
+          dimension,
+          mode,
+          value,
+        });
+      }
+    }
+  }
+
+  filters.amounts.forEach(({ field, operator, value }, index) => {
+    chips.push({
+      key: `amount:${index}`,
+      label: `${field === "cost" ? "Cost" : "Quantity"} ${operator} ${value}`,
+      kind: "amount",
+      index,
+    });
+  });
+  return chips;
+}
+
+export function hasActiveFilters(filters: FilterState): boolean {
+  return getFilterChips(filters).length > 0;
+}
+
+export function removeFilter(
+  filters: FilterState,
+  chip: FilterChip,
+): FilterState {
+  switch (chip.kind) {
+    case "startDate":
+      return { ...filters, dateRange: { ...filters.dateRange, start: "" } };
+    case "endDate":
+      return { ...filters, dateRange: { ...filters.dateRange, end: "" } };
+    case "amount":
+      return {
+        ...filters,
+        amounts: filters.amounts.filter((_, i) => i !== chip.index),
+      };
+    default: {
+      const filter = filters[chip.dimension];
+      return {
+        ...filters,
+        [chip.dimension]: {
+          ...filter,
+          [chip.mode]: (filter[chip.mode] || []).filter(
+            (v) => v !== chip.value,
+          ),
+        },
+      };
+    }
+  }
+}
+
+/** The options `DataProcessor` filters with, for these filters */
+export function toDataFilterOptions(filters: FilterState): DataFilterOptions {
+  return {
+    startDate: filters.dateRange.start,
+    endDate: filters.dateRange.end,
+    organization: filters.organization,
+    repository: filters.repository,
+    costCenter: filters.costCenter,
+    sku: filters.sku,
+    amounts: filters.amounts,
+  };
+}
+
+/** Rows of a dataset matching the filters */
+export function selectRows(
+  dataset: ColumnarDataset,
+  filters: FilterState,
+): RowSelection {
+  return dataset.select(toDataFilterOptions(filters));
+}
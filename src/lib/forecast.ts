@@ -0,0 +1,269 @@
+import {
+  DEFAULT_BILLING_CYCLE_START_DAY,
+  getBillingPeriod,
+  getFirstPeriodOf,
+  shiftBillingPeriod,
+  shiftDate,
+} from "@/lib/billingCycle";
+
+/**
+ * Projections of a daily series to the end of the billing period (or
+ * quarter) the data ends in, so spend can be estimated before the invoice
+ * arrives. Missing days count as no usage, and projected days can't go
+ * below zero.
+ */
+
+export type ForecastModel = "linear" | "movingAverage" | "weekdaySeasonal";
+export type ForecastHorizon = "month" | "quarter";
+
+export const FORECAST_MODELS: { id: ForecastModel; label: string }[] = [
+  { id: "linear", label: "Linear trend" },
+  { id: "movingAverage", label: "Moving average" },
+  { id: "weekdaySeasonal", label: "Weekday seasonal" },
+];
+
+export const FORECAST_HORIZONS: { id: ForecastHorizon; label: string }[] = [
+  { id: "month", label: "Month end" },
+  { id: "quarter", label: "Quarter end" },
+];
+
+// Recent days the models are fitted on: long enough to see each weekday
+// several times, short enough to follow changes in usage
+const LOOKBACK_DAYS = 56;
+const MOVING_AVERAGE_DAYS = 7;
+
+// Normal quantile of a two-sided 80% interval
+const BAND_Z = 1.2816;
+export const CONFIDENCE_LEVEL = 80;
+
+export interface DailyValue {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+/** A day of the period, cumulative from the period's first day */
+export interface ForecastPoint {
+  date: string;
+  actual?: number; // Days with data
+  projected?: number; // From the last day with data onwards
+  lower?: number;
+  upper?: number;
+}
+
+export interface Forecast {
+  period: { start: string; end: string };
+  lastDate: string; // Last day with data
+  actual: number; // Total so far in the period
+  projected: number; // Expected total for the whole period
+  lower: number;
+  upper: number;
+  points: ForecastPoint[];
+}
+
+interface ForecastOptions {
+  model: ForecastModel;
+  horizon: ForecastHorizon;
+  billingCycleStartDay?: number;
+}
+
+// Expected value and standard error of a day ahead of the history
+type Predictor = (step: number, date: string) => {
+  value: number;
+  stdDev: number;
+};
+
+function mean(values: number[]): number {
+  return values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : 0;
+}
+
+function getWeekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+/** The period a forecast runs to the end of, containing the given day */
+export function getForecastPeriod(
+  date: string,
+  horizon: ForecastHorizon,
+  billingCycleStartDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): { start: string; end: string } {
+  const period = getBillingPeriod(date, billingCycleStartDay);
+  if (horizon === "month") return { start: period.start, end: period.end };
+
+  const first = getFirstPeriodOf("quarter", period, billingCycleStartDay);
+  return {
+    start: first.start,
+    end: shiftBillingPeriod(first, 2, billingCycleStartDay).end,
+  };
+}
+
+/** Every day from the first to the last date, with missing days as 0 */
+export function fillDailySeries(days: DailyValue[]): DailyValue[] {
+  if (days.length === 0) return [];
+
+  const values = new Map<string, number>();
+  days.forEach(({ date, value }) => {
+    const day = date.substring(0, 10);
+    values.set(day, (values.get(day) || 0) + value);
+  });
+  const dates = Array.from(values.keys()).sort();
+
+  const filled: DailyValue[] = [];
+  const last = dates[dates.length - 1];
+  for (let date = dates[0]; date <= last; date = shiftDate(date, 1)) {
+    filled.push({ date, value: values.get(date) || 0 });
+  }
+  return filled;
+}
+
+/** Least-squares line through the history, with prediction intervals */
+function fitLinear(values: number[]): Predictor {
+  const n = values.length;
+  const xMean = (n - 1) / 2;
+  const yMean = mean(values);
+  let sxx = 0;
+  let sxy = 0;
+  values.forEach((y, x) => {
+    sxx += (x - xMean) ** 2;
+    sxy += (x - xMean) * (y - yMean);
+  });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const intercept = yMean - slope * xMean;
+
+  const sse = values.reduce(
+    (sum, y, x) => sum + (y - (intercept + slope * x)) ** 2,
+    0,
+  );
+  const residual = n > 2 ? Math.sqrt(sse / (n - 2)) : 0;
+
+  return (step) => {
+    const x = n - 1 + step;
+    const leverage = sxx > 0 ? (x - xMean) ** 2 / sxx : 0;
+    return {
+      value: intercept + slope * x,
+      stdDev: residual * Math.sqrt(1 + 1 / n + leverage),
+    };
+  };
+}
+
+/** Mean of the last week, flat into the future */
+function fitMovingAverage(values: number[]): Predictor {
+  const window = values.slice(-MOVING_AVERAGE_DAYS);
+  const level = mean(window);
+  const variance =
+    window.length > 1
+      ? window.reduce((sum, value) => sum + (value - level) ** 2, 0) /
+        (window.length - 1)
+      : 0;
+  const stdDev = Math.sqrt(variance * (1 + 1 / window.length));
+
+  return () => ({ value: level, stdDev });
+}
+
+/**
+ * Mean of each weekday over the history, for usage that differs between
+ * workdays and weekends. Weekdays not seen yet use the overall mean.
+ */
+function fitWeekdaySeasonal(history: DailyValue[]): Predictor {
+  const byWeekday: number[][] = Array.from({ length: 7 }, () => []);
+  history.forEach(({ date, value }) => byWeekday[getWeekday(date)].push(value));
+
+  const overall = mean(history.map(({ value }) => value));
+  const levels = byWeekday.map((values) =>
+    values.length ? mean(values) : overall,
+  );
+
+  const sse = history.reduce(
+    (sum, { date, value }) => sum + (value - levels[getWeekday(date)]) ** 2,
+    0,
+  );
+  const seenWeekdays = byWeekday.filter((values) => values.length).length;
+  const degrees = history.length - seenWeekdays;
+  const residual = degrees > 0 ? Math.sqrt(sse / degrees) : 0;
+
+  return (_, date) => {
+    const samples = byWeekday[getWeekday(date)].length;
+    return {
+      value: levels[getWeekday(date)],
+      stdDev: residual * Math.sqrt(1 + 1 / Math.max(samples, 1)),
+    };
+  };
+}
+
+function fit(model: ForecastModel, history: DailyValue[]): Predictor {
+  switch (model) {
+    case "linear":
+      return fitLinear(history.map(({ value }) => value));
+    case "movingAverage":
+      return fitMovingAverage(history.map(({ value }) => value));
+    case "weekdaySeasonal":
+      return fitWeekdaySeasonal(history);
+  }
+}
+
+/**
+ * Project a daily series to the end of the period its last day falls in.
+ * The band treats the errors of each projected day as independent, which
+ * understates it when a trend is off; read it as a guide, not a bound.
+ */
+export function forecastToPeriodEnd(
+  days: DailyValue[],
+  options: ForecastOptions,
+): Forecast | null {
+  const series = fillDailySeries(days);
+  if (series.length === 0) return null;
+
+  const { model, horizon, billingCycleStartDay } = options;
+  const lastDate = series[series.length - 1].date;
+  const period = getForecastPeriod(lastDate, horizon, billingCycleStartDay);
+  const predict = fit(model, series.slice(-LOOKBACK_DAYS));
+
+  // Days before the data starts count as no usage
+  const values = new Map(series.map(({ date, value }) => [date, value]));
+  const points: ForecastPoint[] = [];
+  let actual = 0;
+  for (let date = period.start; date <= lastDate; date = shiftDate(date, 1)) {
+    actual += values.get(date) || 0;
+    points.push({ date, actual });
+  }
+
+  // The projection starts from the last actual day so the lines join
+  points[points.length - 1] = {
+    ...points[points.length - 1],
+    projected: actual,
+    lower: actual,
+    upper: actual,
+  };
+
+  let projected = actual;
+  let variance = 0;
+  let step = 1;
+  for (
+    let date = shiftDate(lastDate, 1);
+    date <= period.end;
+    date = shiftDate(date, 1)
+  ) {
+    const { value, stdDev } = predict(step++, date);
+    projected += Math.max(0, value);
+    variance += stdDev ** 2;
+    const margin = BAND_Z * Math.sqrt(variance);
+    points.push({
+      date,
+      projected,
+      lower: Math.max(actual, projected - margin),
+      upper: projected + margin,
+    });
+  }
+
+  const margin = BAND_Z * Math.sqrt(variance);
+  return {
+    period,
+    lastDate,
+    actual,
+    projected,
+    lower: Math.max(actual, projected - margin),
+    upper: projected + margin,
+    points,
+  };
+}
@@ -0,0 +1,197 @@
+import {
+  DataProcessor,
+  TimeBucket,
+  getBucketEnd,
+} from "@/lib/dataProcessor";
+import {
+  DEFAULT_BILLING_CYCLE_START_DAY,
+  formatBillingPeriod,
+  getBillingPeriod,
+} from "@/lib/billingCycle";
+
+/**
+ * How finely charts split time: a fixed bucket, or one chosen from the
+ * length of the range shown so long ranges stay readable
+ */
+
+export type Granularity = TimeBucket | "auto";
+
+export const DEFAULT_GRANULARITY: Granularity = "auto";
+
+export const GRANULARITIES: { id: Granularity; label: string }[] = [
+  { id: "auto", label: "Automatic" },
+  { id: "day", label: "Day" },
+  { id: "week", label: "Week" },
+  { id: "isoWeek", label: "ISO week" },
+  { id: "month", label: "Month" },
+  { id: "quarter", label: "Quarter" },
+  { id: "billingCycle", label: "Billing cycle" },
+];
+
+// Most points a time axis shows before automatic selection moves to a
+// coarser bucket: two months of days, about a year of weeks
+const MAX_AUTO_POINTS = 62;
+
+const BUCKET_ADJECTIVES: Record<TimeBucket, string> = {
+  day: "Daily",
+  week: "Weekly",
+  isoWeek: "Weekly",
+  month: "Monthly",
+  quarter: "Quarterly",
+  billingCycle: "Billing Cycle",
+};
+
+export function isGranularity(value: string): value is Granularity {
+  return GRANULARITIES.some(({ id }) => id === value);
+}
+
+/**
+ * The bucket to draw a date range (YYYY-MM-DD) in, on a chart of the given
+ * width in pixels when known. Automatic months follow the billing cycle
+ * when it doesn't start on the 1st.
+ */
+export function resolveGranularity(
+  granularity: Granularity,
+  startDate: string,
+  endDate: string,
+  billingCycleStartDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+  chartWidth?: number,
+): TimeBucket {
+  if (granularity !== "auto") return granularity;
+
+  const bucket = DataProcessor.chooseTimeBucket(startDate, endDate, {
+    maxDataPoints: MAX_AUTO_POINTS,
+    chartWidth,
+  });
+  return bucket === "month" &&
+    billingCycleStartDay !== DEFAULT_BILLING_CYCLE_START_DAY
+    ? "billingCycle"
+    : bucket;
+}
+
+/**
+ * Thin the points of a bucketed series to what a chart of the given width
+ * can show, keeping its peaks and dips. Totals are unaffected as long as
+ * they are taken from the full series.
+ */
+export function fitChartPoints<T>(
+  points: T[],
+  chartWidth: number | undefined,
+  getValue: (point: T) => number,
+): T[] {
+  return DataProcessor.downsampleSeries(
+    points,
+    DataProcessor.getMaxDataPoints({ chartWidth }),
+    getValue,
+  );
+}
+
+/** "Daily", "Weekly" and so on, for chart titles */
+export function getBucketAdjective(bucket: TimeBucket): string {
+  return BUCKET_ADJECTIVES[bucket];
+}
+
+function formatDay(date: string, options: Intl.DateTimeFormatOptions) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    timeZone: "UTC",
+    ...options,
+  });
+}
+
+// ISO 8601 week number and the year it belongs to, from the Thursday of
+// the week
+function getISOWeek(weekStart: string): { year: number; week: number } {
+  const thursday = new Date(`${weekStart}T00:00:00Z`);
+  thursday.setUTCDate(thursday.getUTCDate() + 3);
+  const year = thursday.getUTCFullYear();
+  const dayOfYear =
+    (thursday.getTime() - Date.UTC(year, 0, 1)) / (24 * 60 * 60 * 1000);
+  return { year, week: Math.floor(dayOfYear / 7) + 1 };
+}
+
+/** Axis label for the bucket starting on a date */
+export function formatBucketLabel(
+  start: string,
+  bucket: TimeBucket,
+  includeYear: boolean,
+  billingCycleStartDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): string {
+  const year = includeYear ? ` ${start.substring(0, 4)}` : "";
+  switch (bucket) {
+    case "day":
+    case "week":
+      return formatDay(start, {
+        month: "short",
+        day: "numeric",
+        ...(includeYear && { year: "2-digit" }),
+      });
+    case "isoWeek": {
+      const { year: weekYear, week } = getISOWeek(start);
+      const label = `W${String(week).padStart(2, "0")}`;
+      return includeYear ? `${weekYear}-${label}` : label;
+    }
+    case "month":
+      return `${formatDay(start, { month: "short" })}${year}`;
+    case "quarter":
+      return `Q${Math.floor((Number(start.substring(5, 7)) - 1) / 3) + 1}${year}`;
+    case "billingCycle":
+      return formatBillingPeriod(
+        getBillingPeriod(start, billingCycleStartDay),
+        billingCycleStartDay,
+        includeYear,
+      );
+  }
+}
+
+/** Tooltip label spelling out the days a bucket covers */
+export function formatBucketPeriod(
+  start: string,
+  bucket: TimeBucket,
+  billingCycleStartDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): string {
+  const full = { month: "short", day: "numeric", year: "numeric" } as const;
+  if (bucket === "day") {
+    return formatDay(start, { weekday: "short", ...full });
+  }
+
+  const end = getBucketEnd(start, bucket, billingCycleStartDay);
+  const range = `${formatDay(start, { month: "short", day: "numeric" })} – ${formatDay(end, full)}`;
+  // Week numbers and quarters are named as well
+  return bucket === "isoWeek" || bucket === "quarter"
+    ? `${formatBucketLabel(start, bucket, true)} (${range})`
+    : range;
+}
+
+/**
+ * Replace the bucket start dates of chart points with axis labels, keeping
+ * the period each covers for tooltips. Years are shown when the points
+ * span more than one.
+ */
+export function labelChartPoints<T extends { date: string }>(
+  points: T[],
+  bucket: TimeBucket,
+  billingCycleStartDay: number = DEFAULT_BILLING_CYCLE_START_DAY,
+): (T & { period: string })[] {
+  const includeYear =
+    points.length > 0 &&
+    points[0].date.substring(0, 4) !==
+      points[points.length - 1].date.substring(0, 4);
+  return points.map((point) => ({
+    ...point,
+    date: formatBucketLabel(
+      point.date,
+      bucket,
+      includeYear,
+      billingCycleStartDay,
+    ),
+    period: formatBucketPeriod(point.date, bucket, billingCycleStartDay),
+  }));
+}
+
+/** Tooltip `labelFormatter` showing the period of the point under the cursor */
+export function formatPeriodLabel(
+  label: string,
+  payload: ReadonlyArray<{ payload?: { period?: string } }>,
+) {
+  return payload[0]?.payload?.period ?? label;
+}
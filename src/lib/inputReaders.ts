@@ -0,0 +1,246 @@
+import { CSVRecord, ReadCSVOptions, readCSVRecords } from "@/lib/csvTokenizer";
+import { decompress, openZipEntry, readZipEntries } from "@/lib/zipArchive";
+import { isXlsxArchive, readXlsxRecords } from "@/lib/xlsxReader";
+
+/**
+ * Pluggable readers that turn an uploaded export into CSV-style records
+ * for the report builder. Readers are chosen by sniffing the first bytes
+ * rather than trusting the extension, and compressed exports are unpacked
+ * in the browser before being dispatched again on their contents.
+ */
+
+export interface InputSource {
+  name: string;
+  stream: ReadableStream<Uint8Array>; // Not yet read
+  blob?: Blob; // Random access to the same bytes, where available
+}
+
+export interface InputReader {
+  id: "csv" | "json" | "gzip" | "zip";
+  label: string;
+  sniff: (head: Uint8Array) => boolean;
+  read: (
+    source: InputSource,
+    options: ReadCSVOptions,
+  ) => AsyncIterable<CSVRecord>;
+}
+
+// How much of the first chunk is inspected for text vs binary content
+const SNIFF_BYTES = 512;
+
+export const SUPPORTED_EXTENSIONS = [".csv", ".json", ".xlsx", ".gz", ".zip"];
+
+const textDecoder = new TextDecoder("utf-8");
+
+function firstCharacter(head: Uint8Array): string {
+  return textDecoder
+    .decode(head.subarray(0, SNIFF_BYTES))
+    .replace(/^\uFEFF/, "")
+    .trimStart()
+    .charAt(0);
+}
+
+function getUsageItems(payload: unknown): unknown[] | undefined {
+  if (typeof payload !== "object" || payload === null) return undefined;
+  const { usageItems } = payload as { usageItems?: unknown };
+  return Array.isArray(usageItems) ? usageItems : undefined;
+}
+
+/**
+ * The row objects of a JSON export, wherever the payload keeps them. An
+ * array of saved API pages is flattened into their combined `usageItems`.
+ */
+function findJSONItems(payload: unknown): unknown[] {
+  if (Array.isArray(payload)) {
+    const pages = payload.map(getUsageItems);
+    return pages.length > 0 && pages.every(Boolean)
+      ? pages.flatMap((items) => items || [])
+      : payload;
+  }
+  if (typeof payload !== "object" || payload === null) return [];
+
+  return (
+    getUsageItems(payload) || Object.values(payload).find(Array.isArray) || []
+  );
+}
+
+function toField(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+export const CSV_READER: InputReader = {
+  id: "csv",
+  label: "CSV",
+  sniff: (head) => !head.subarray(0, SNIFF_BYTES).includes(0),
+  read: (source, { signal }) => readCSVRecords(source.stream, { signal }),
+};
+
+/**
+ * JSON exports: an array of row objects, or an object holding one (such
+ * as the `usageItems` of the billing usage API). Keys become the header
+ * as they are, and the items are numbered as if they were lines below it.
+ */
+export const JSON_READER: InputReader = {
+  id: "json",
+  label: "JSON",
+  sniff: (head) => ["{", "["].includes(firstCharacter(head)),
+  read: async function* (source, { signal }) {
+    const text = await new Response(source.stream).text();
+    signal?.throwIfAborted();
+
+    const rows = findJSONItems(JSON.parse(text.replace(/^\uFEFF/, ""))).filter(
+      (item): item is Record<string, unknown> =>
+        typeof item === "object" && item !== null && !Array.isArray(item),
+    );
+    const keys = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+
+    yield { fields: keys, line: 1 };
+    for (const [index, row] of rows.entries()) {
+      yield { fields: keys.map((key) => toField(row[key])), line: index + 2 };
+    }
+  },
+};
+
+export const GZIP_READER: InputReader = {
+  id: "gzip",
+  label: "gzip",
+  sniff: (head) => head[0] === 0x1f && head[1] === 0x8b,
+  // Progress is counted on the compressed bytes, so it isn't passed on
+  read: (source, { signal }) =>
+    readInputRecords(
+      {
+        name: source.name.replace(/\.gz$/i, ""),
+        stream: decompress(source.stream, "gzip"),
+      },
+      { signal },
+    ),
+};
+
+/**
+ * ZIP archives, including XLSX workbooks. Plain archives are read from
+ * their first entry that isn't a directory or macOS metadata.
+ */
+export const ZIP_READER: InputReader = {
+  id: "zip",
+  label: "ZIP / XLSX",
+  sniff: (head) =>
+    head[0] === 0x50 &&
+    head[1] === 0x4b &&
+    head[2] === 0x03 &&
+    head[3] === 0x04,
+  read: async function* (source, { signal, onBytesRead }) {
+    const archive = source.blob ?? (await new Response(source.stream).blob());
+    const entries = await readZipEntries(archive);
+    signal?.throwIfAborted();
+
+    if (isXlsxArchive(entries)) {
+      yield* await readXlsxRecords(archive, entries);
+      onBytesRead?.(archive.size);
+      return;
+    }
+
+    const entry = entries.find(
+      (candidate) =>
+        !candidate.name.endsWith("/") &&
+        !candidate.name.startsWith("__MACOSX/"),
+    );
+    if (!entry) {
+      throw new Error("The ZIP archive does not contain any files");
+    }
+
+    yield* readInputRecords(
+      {
+        name: entry.name,
+        stream: await openZipEntry(archive, entry, onBytesRead),
+      },
+      { signal },
+    );
+  },
+};
+
+// Checked in order; binary formats first, CSV is the text fallback
+export const INPUT_READERS: InputReader[] = [
+  GZIP_READER,
+  ZIP_READER,
+  JSON_READER,
+  CSV_READER,
+];
+
+/** Split off the first chunk of a stream without losing it */
+async function peekStream(stream: ReadableStream<Uint8Array>): Promise<{
+  head: Uint8Array;
+  stream: ReadableStream<Uint8Array>;
+}> {
+  const reader = stream.getReader();
+  const first = await reader.read();
+  const head = first.value ?? new Uint8Array();
+
+  const rest = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (first.done) {
+        controller.close();
+      } else {
+        controller.enqueue(head);
+      }
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return { head, stream: rest };
+}
+
+/**
+ * Read records from a source with whichever reader recognizes its content
+ */
+export async function* readInputRecords(
+  source: InputSource,
+  options: ReadCSVOptions = {},
+): AsyncGenerator<CSVRecord> {
+  const { head, stream } = await peekStream(source.stream);
+  const reader = INPUT_READERS.find((candidate) => candidate.sniff(head));
+
+  if (!reader) {
+    const formats = SUPPORTED_EXTENSIONS.join(", ");
+    throw new Error(`Unsupported file format. Please upload ${formats} files.`);
+  }
+
+  yield* reader.read({ ...source, stream }, options);
+}
+
+/**
+ * Read the records of an uploaded file, reporting progress in bytes of
+ * the file itself (i.e. compressed bytes for compressed exports)
+ */
+export function readFileRecords(
+  file: File,
+  options: ReadCSVOptions = {},
+): AsyncGenerator<CSVRecord> {
+  const { signal, onBytesRead } = options;
+  let bytesRead = 0;
+
+  const stream = file.stream().pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytesRead += chunk.byteLength;
+        onBytesRead?.(bytesRead);
+        controller.enqueue(chunk);
+      },
+    }),
+  );
+
+  return readInputRecords(
+    { name: file.name, stream, blob: file },
+    { signal, onBytesRead },
+  );
+}
@@ -0,0 +1,484 @@
+import {
+  ReportFormatId,
+  ServiceData,
+  ServiceDataExtras,
+} from "@/types/billing";
+import { ReportIssue } from "@/lib/diagnostics";
+
+/**
+ * Adapters for the CSV layouts GitHub has exported over time. Each format
+ * recognizes its own header row and maps rows into the shared ServiceData
+ * model, so old and new reports can be charted side by side.
+ */
+
+/**
+ * Turns the trimmed values of a row into a billing row, or reports why the
+ * row is skipped and returns null
+ */
+export type RowMapper = (
+  values: string[],
+  report: ReportIssue,
+) => ServiceData | null;
+
+/** Header index assigned to each of a format's fields, -1 when unmapped */
+export type ColumnIndices = Record<string, number>;
+
+export interface ColumnField {
+  key: string;
+  label: string;
+  required?: boolean;
+  names: string[]; // Exact header names, lowercase
+  contains?: string[]; // Substring fallbacks when no exact name is present
+}
+
+export interface ReportFormat {
+  id: ReportFormatId;
+  label: string;
+  fields: ColumnField[];
+  matches: (header: string[]) => boolean; // Header cells, already normalized
+  createRowMapper: (header: string[], columns: ColumnIndices) => RowMapper;
+}
+
+/** A format together with the columns chosen for its fields */
+export interface ColumnMapping {
+  format: ReportFormatId;
+  columns: ColumnIndices;
+}
+
+export interface ColumnResolution {
+  columns: ColumnIndices;
+  ambiguous: string[]; // Fields matched by substring against several columns
+}
+
+function findColumn(
+  header: string[],
+  predicate: (h: string) => boolean,
+): number {
+  return header.findIndex((h) => predicate(h.toLowerCase()));
+}
+
+/**
+ * Parse an optional numeric column, leaving it undefined when absent and
+ * reporting values that are present but not numbers
+ */
+function parseNumber(
+  value: string | undefined,
+  label: string,
+  report: ReportIssue,
+): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  if (isNaN(parsed)) {
+    report({
+      kind: "invalidNumber",
+      message: `${label} "${value}" is not a number`,
+    });
+    return undefined;
+  }
+  return parsed;
+}
+
+/** Parse a numeric column totals depend on, counting bad values as 0 */
+function parseRequiredNumber(
+  value: string | undefined,
+  label: string,
+  report: ReportIssue,
+): number {
+  if (value === undefined || value === "") {
+    report({
+      kind: "invalidNumber",
+      message: `${label} is empty, counted as 0`,
+    });
+    return 0;
+  }
+  return parseNumber(value, label, report) ?? 0;
+}
+
+/** Report a row lacking essential values; true when it must be skipped */
+function rejectMissing(
+  values: Record<string, string | undefined>,
+  report: ReportIssue,
+): boolean {
+  const missing = Object.keys(values).filter((label) => !values[label]);
+  if (missing.length === 0) return false;
+
+  report({
+    kind: "skippedRow",
+    rejected: true,
+    message: `Missing ${missing.join(", ")}`,
+  });
+  return true;
+}
+
+/**
+ * Build a collector for the columns no known field claims, so that they
+ * are kept on each row as extras
+ */
+function createExtrasCollector(
+  header: string[],
+  claimedColumns: number[],
+): (values: string[]) => ServiceDataExtras | undefined {
+  const claimed = new Set(claimedColumns);
+  const extraColumns = header
+    .map((_, index) => index)
+    .filter((index) => !claimed.has(index) && header[index]);
+
+  return (values) => {
+    const extras = extraColumns.reduce((acc, index) => {
+      if (values[index]) acc[header[index]] = values[index];
+      return acc;
+    }, {} as ServiceDataExtras);
+    return Object.keys(extras).length > 0 ? extras : undefined;
+  };
+}
+
+/** A field found by its exact name, or else by substring */
+function matchLoosely(
+  key: string,
+  label: string,
+  name: string,
+  required = false,
+): ColumnField {
+  return { key, label, required, names: [name], contains: [name] };
+}
+
+/** Row mapper shared by the exports that carry net and gross amounts */
+function createBillingRowMapper(
+  header: string[],
+  columns: ColumnIndices,
+): RowMapper {
+  const collectExtras = createExtrasCollector(
+    header,
+    Object.values(columns),
+  );
+
+  return (values, report) => {
+    const date = values[columns.date];
+    const product = values[columns.product];
+    const sku = values[columns.sku];
+
+    if (rejectMissing({ date, product, sku }, report)) return null;
+
+    return {
+      date,
+      cost: parseRequiredNumber(
+        values[columns.netAmount],
+        "Net amount",
+        report,
+      ),
+      quantity: parseRequiredNumber(
+        values[columns.quantity],
+        "Quantity",
+        report,
+      ),
+      sku,
+      product,
+      unitType: values[columns.unitType] || undefined,
+      appliedCostPerQuantity: parseNumber(
+        values[columns.appliedCostPerQuantity],
+        "Applied cost per quantity",
+        report,
+      ),
+      grossAmount: parseNumber(
+        values[columns.grossAmount],
+        "Gross amount",
+        report,
+      ),
+      discountAmount: parseNumber(
+        values[columns.discountAmount],
+        "Discount amount",
+        report,
+      ),
+      organization: values[columns.organization] || "",
+      repository: values[columns.repository] || "",
+      costCenter: values[columns.costCenter] || "",
+      model: values[columns.model] || undefined,
+      extras: collectExtras(values),
+    };
+  };
+}
+
+/**
+ * The enhanced billing export (`date, product, sku, quantity, unit_type,
+ * applied_cost_per_quantity, gross_amount, discount_amount, net_amount, ...`)
+ */
+export const ENHANCED_BILLING_FORMAT: ReportFormat = {
+  id: "enhanced",
+  label: "Enhanced billing report",
+  fields: [
+    matchLoosely("date", "Date", "date", true),
+    matchLoosely("product", "Product", "product", true),
+    matchLoosely("sku", "SKU", "sku", true),
+    matchLoosely("quantity", "Quantity", "quantity", true),
+    matchLoosely("unitType", "Unit type", "unit_type"),
+    matchLoosely(
+      "appliedCostPerQuantity",
+      "Applied cost per quantity",
+      "applied_cost_per_quantity",
+    ),
+    matchLoosely("grossAmount", "Gross amount", "gross_amount"),
+    matchLoosely("discountAmount", "Discount amount", "discount_amount"),
+    matchLoosely("netAmount", "Net amount", "net_amount", true),
+    matchLoosely("organization", "Organization", "organization"),
+    matchLoosely("repository", "Repository", "repository"),
+    {
+      key: "costCenter",
+      label: "Cost center",
+      names: ["cost_center_name", "cost_center"],
+      contains: ["cost_center", "costcenter"],
+    },
+    { key: "model", label: "Model", names: ["model"] },
+  ],
+  matches: (header) => findColumn(header, (h) => h.includes("net_amount")) >= 0,
+  createRowMapper: createBillingRowMapper,
+};
+
+// Legacy products and units renamed to their enhanced-export equivalents
+const LEGACY_PRODUCTS: Record<string, string> = {
+  "shared storage": "actions",
+};
+
+const LEGACY_UNIT_TYPES: Record<string, string> = {
+  minute: "minutes",
+};
+
+/** Strip the currency sign and separators legacy amounts may carry */
+function cleanLegacyNumber(value: string | undefined): string | undefined {
+  return value?.replace(/[$,]/g, "");
+}
+
+/**
+ * Map a legacy SKU such as `Compute - UBUNTU` or `Shared Storage` onto the
+ * snake_case SKUs of the enhanced export (`actions_linux`, `actions_storage`)
+ */
+function normalizeLegacySku(sku: string): string {
+  const key = sku.toLowerCase();
+  if (key === "shared storage") return "actions_storage";
+
+  const compute = key.match(/^compute\s*-\s*(.+)$/);
+  if (compute) {
+    return `actions_${compute[1].replace("ubuntu", "linux")}`.replace(
+      /[^a-z0-9]+/g,
+      "_",
+    );
+  }
+
+  return key.replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+}
+
+/**
+ * The legacy usage report (`Date, Product, SKU, Quantity, Unit Type,
+ * Price Per Unit ($), Multiplier, Owner, Repository Slug, Username,
+ * Actions Workflow, Notes`), which has no amount columns: cost is derived
+ * from price × quantity × multiplier
+ */
+export const LEGACY_USAGE_FORMAT: ReportFormat = {
+  id: "legacy",
+  label: "Legacy usage report",
+  fields: [
+    { key: "date", label: "Date", required: true, names: ["date"] },
+    { key: "product", label: "Product", required: true, names: ["product"] },
+    { key: "sku", label: "SKU", required: true, names: ["sku"] },
+    { key: "quantity", label: "Quantity", required: true, names: ["quantity"] },
+    { key: "unitType", label: "Unit type", names: ["unit type"] },
+    {
+      key: "pricePerUnit",
+      label: "Price per unit",
+      required: true,
+      names: ["price per unit ($)", "price per unit"],
+      contains: ["price per unit"],
+    },
+    { key: "multiplier", label: "Multiplier", names: ["multiplier"] },
+    { key: "owner", label: "Owner", names: ["owner"] },
+    {
+      key: "repositorySlug",
+      label: "Repository slug",
+      names: ["repository slug"],
+    },
+  ],
+  matches: (header) =>
+    findColumn(header, (h) => h.startsWith("price per unit")) >= 0 &&
+    findColumn(header, (h) => h === "multiplier") >= 0,
+  createRowMapper: (header, columns) => {
+    // Username, Actions Workflow and Notes are kept as extras
+    const collectExtras = createExtrasCollector(
+      header,
+      Object.values(columns),
+    );
+
+    return (values, report) => {
+      const date = values[columns.date];
+      const product = values[columns.product];
+      const sku = values[columns.sku];
+
+      if (rejectMissing({ date, product, sku }, report)) return null;
+
+      const quantity = parseRequiredNumber(
+        cleanLegacyNumber(values[columns.quantity]),
+        "Quantity",
+        report,
+      );
+      const pricePerUnit = parseRequiredNumber(
+        cleanLegacyNumber(values[columns.pricePerUnit]),
+        "Price per unit",
+        report,
+      );
+      const multiplier =
+        parseNumber(
+          cleanLegacyNumber(values[columns.multiplier]),
+          "Multiplier",
+          report,
+        ) ?? 1;
+      const cost = quantity * pricePerUnit * multiplier;
+      const productKey = product.toLowerCase();
+      const unitType = values[columns.unitType]?.toLowerCase();
+
+      return {
+        date,
+        cost,
+        quantity,
+        sku: normalizeLegacySku(sku),
+        product: LEGACY_PRODUCTS[productKey] ?? productKey,
+        unitType: unitType
+          ? (LEGACY_UNIT_TYPES[unitType] ?? unitType)
+          : undefined,
+        appliedCostPerQuantity: pricePerUnit * multiplier,
+        grossAmount: cost,
+        organization: values[columns.owner] || "",
+        repository: values[columns.repositorySlug] || "",
+        costCenter: "",
+        extras: collectExtras(values),
+      };
+    };
+  },
+};
+
+/**
+ * The `usageItems` of the enhanced billing usage REST API. Its camelCase
+ * keys carry the same data as the enhanced CSV export.
+ */
+export const USAGE_API_FORMAT: ReportFormat = {
+  id: "usageApi",
+  label: "Billing usage API (JSON)",
+  fields: [
+    { key: "date", label: "Date", required: true, names: ["date"] },
+    { key: "product", label: "Product", required: true, names: ["product"] },
+    { key: "sku", label: "SKU", required: true, names: ["sku"] },
+    { key: "quantity", label: "Quantity", required: true, names: ["quantity"] },
+    { key: "unitType", label: "Unit type", names: ["unittype"] },
+    {
+      key: "appliedCostPerQuantity",
+      label: "Price per unit",
+      names: ["priceperunit", "appliedcostperquantity"],
+    },
+    { key: "grossAmount", label: "Gross amount", names: ["grossamount"] },
+    {
+      key: "discountAmount",
+      label: "Discount amount",
+      names: ["discountamount"],
+    },
+    {
+      key: "netAmount",
+      label: "Net amount",
+      required: true,
+      names: ["netamount"],
+    },
+    {
+      key: "organization",
+      label: "Organization",
+      names: ["organizationname", "organization"],
+    },
+    {
+      key: "repository",
+      label: "Repository",
+      names: ["repositoryname", "repository"],
+    },
+    {
+      key: "costCenter",
+      label: "Cost center",
+      names: ["costcentername", "costcenter"],
+    },
+    { key: "model", label: "Model", names: ["model"] },
+  ],
+  matches: (header) => findColumn(header, (h) => h === "netamount") >= 0,
+  createRowMapper: (header, columns) => {
+    const mapRow = createBillingRowMapper(header, columns);
+
+    return (values, report) => {
+      const row = mapRow(values, report);
+      // The API may report timestamps; charts group by calendar day
+      if (row) row.date = row.date.replace(/T.*$/, "");
+      return row;
+    };
+  },
+};
+
+// Checked in order; the enhanced export is the fallback for unknown headers
+export const REPORT_FORMATS: ReportFormat[] = [
+  LEGACY_USAGE_FORMAT,
+  USAGE_API_FORMAT,
+  ENHANCED_BILLING_FORMAT,
+];
+
+export function detectReportFormat(header: string[]): ReportFormat {
+  return (
+    REPORT_FORMATS.find((format) => format.matches(header)) ??
+    ENHANCED_BILLING_FORMAT
+  );
+}
+
+export function getReportFormat(id: ReportFormatId): ReportFormat | undefined {
+  return REPORT_FORMATS.find((format) => format.id === id);
+}
+
+/**
+ * Assign header columns to a format's fields. Exact names are claimed
+ * first, so that e.g. `date_updated` cannot hijack a `date` column; the
+ * remaining fields fall back to substring matches among unclaimed columns.
+ */
+export function resolveColumns(
+  format: ReportFormat,
+  header: string[],
+): ColumnResolution {
+  const lowerHeader = header.map((h) => h.toLowerCase());
+  const claimed = new Set<number>();
+  const columns: ColumnIndices = {};
+  const ambiguous: string[] = [];
+
+  format.fields.forEach((field) => {
+    const index = lowerHeader.findIndex(
+      (h, i) => !claimed.has(i) && field.names.includes(h),
+    );
+    columns[field.key] = index;
+    if (index >= 0) claimed.add(index);
+  });
+
+  format.fields.forEach((field) => {
+    if (columns[field.key] >= 0 || !field.contains) return;
+
+    const candidates = lowerHeader
+      .map((h, i) => i)
+      .filter(
+        (i) =>
+          !claimed.has(i) &&
+          field.contains!.some((part) => lowerHeader[i].includes(part)),
+      );
+    if (candidates.length === 0) return;
+
+    if (candidates.length > 1) ambiguous.push(field.key);
+    columns[field.key] = candidates[0];
+    claimed.add(candidates[0]);
+  });
+
+  return { columns, ambiguous };
+}
+
+/** Required fields that have no column assigned */
+export function getMissingFields(
+  format: ReportFormat,
+  columns: ColumnIndices,
+): ColumnField[] {
+  return format.fields.filter(
+    (field) => field.required && !(columns[field.key] >= 0),
+  );
+}
@@ -0,0 +1,99 @@
+import {
+  CategorizedBillingData,
+  GitHubBillingReport,
+  ReportSource,
+  ServiceData,
+} from "@/types/billing";
+import { buildReport, summarizeCategorizedData } from "@/lib/fileParser";
+import { createEmptyCategorizedData } from "@/lib/categorizationRules";
+import { DataProcessor } from "@/lib/dataProcessor";
+
+/**
+ * Stable identity of a billing row. Two rows with the same key describe
+ * the same usage line, e.g. when monthly exports overlap.
+ */
+export function getRowKey(item: ServiceData): string {
+  const extras = item.extras
+    ? Object.keys(item.extras)
+        .sort()
+        .map((key) => [key, item.extras![key]])
+    : [];
+
+  return JSON.stringify([
+    item.date,
+    item.product ?? "",
+    item.sku,
+    item.unitType ?? "",
+    item.quantity,
+    item.appliedCostPerQuantity ?? null,
+    item.grossAmount ?? null,
+    item.discountAmount ?? null,
+    item.cost,
+    item.organization ?? "",
+    item.repository ?? "",
+    item.costCenter ?? "",
+    item.model ?? "",
+    extras,
+  ]);
+}
+
+/**
+ * Merge several reports into one, dropping rows that an earlier report
+ * already contained. Identical rows within a single report are kept, since
+ * an export can legitimately list the same line more than once; a key is
+ * only ever kept as many times as the report that repeats it most.
+ */
+export function mergeReports(
+  reports: GitHubBillingReport[],
+  failedSources: ReportSource[] = [],
+  billingCycleStartDay?: number,
+): GitHubBillingReport {
+  const merged: CategorizedBillingData = createEmptyCategorizedData();
+  const keptCounts = new Map<string, number>();
+  const sources: ReportSource[] = [];
+
+  reports.forEach((report, index) => {
+    const categorized = report.categorizedData || {};
+    const seenInReport = new Map<string, number>();
+    const kept: ServiceData[] = [];
+    let duplicateCount = 0;
+
+    Object.entries(categorized).forEach(([service, rows]) => {
+      if (!merged[service]) merged[service] = [];
+
+      rows.forEach((item) => {
+        const key = getRowKey(item);
+        const occurrence = (seenInReport.get(key) || 0) + 1;
+        seenInReport.set(key, occurrence);
+
+        if (occurrence <= (keptCounts.get(key) || 0)) {
+          duplicateCount++;
+          return;
+        }
+
+        keptCounts.set(key, occurrence);
+        merged[service].push(item);
+        kept.push(item);
+      });
+    });
+
+    const source = report.sources?.[0];
+    sources.push({
+      fileName: source?.fileName || `Report ${index + 1}`,
+      format: source?.format,
+      rowCount: kept.length,
+      duplicateCount,
+      period: report.period,
+      organizations:
+        source?.organizations ||
+        DataProcessor.getUniqueValues(kept, "organization"),
+    });
+  });
+
+  const { data } = summarizeCategorizedData(merged, billingCycleStartDay);
+
+  return {
+    ...buildReport(data, merged),
+    sources: [...sources, ...failedSources],
+  };
+}
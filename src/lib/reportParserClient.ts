@@ -0,0 +1,138 @@
+import {
+  ParseOptions,
+  ReportPreview,
+  previewFile,
+  processFile,
+} from "@/lib/fileParser";
+import { FileUploadResult } from "@/types/billing";
+import type {
+  ReportParserRequest,
+  ReportParserResponse,
+} from "@/workers/reportParser.worker";
+
+type Settle<T, M> = (
+  message: M,
+  resolve: (value: T) => void,
+  reject: (reason: unknown) => void,
+) => void;
+
+/**
+ * Run one request in a fresh worker. `settle` is given every message and
+ * decides when the request is done, and `settleError` what a crashed
+ * worker means; aborting the signal terminates the worker and rejects
+ * with the signal's reason.
+ */
+function runInWorker<T>(
+  request: ReportParserRequest,
+  signal: AbortSignal | undefined,
+  settle: Settle<T, ReportParserResponse>,
+  settleError: Settle<T, string>,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(
+      new URL("../workers/reportParser.worker.ts", import.meta.url),
+      { type: "module" },
+    );
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    const handleAbort = () => {
+      cleanup();
+      reject(signal?.reason);
+    };
+
+    signal?.addEventListener("abort", handleAbort);
+
+    const done = (value: T) => {
+      cleanup();
+      resolve(value);
+    };
+    const fail = (reason: unknown) => {
+      cleanup();
+      reject(reason);
+    };
+
+    worker.addEventListener(
+      "message",
+      (event: MessageEvent<ReportParserResponse>) =>
+        settle(event.data, done, fail),
+    );
+
+    worker.addEventListener("error", (event) =>
+      settleError(
+        event.message || "Failed to process file in background worker.",
+        done,
+        fail,
+      ),
+    );
+
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Parse a billing report in a dedicated Web Worker so large uploads don't
+ * block the UI. Aborting the signal terminates the worker and rejects with
+ * the signal's reason. Falls back to the main thread where workers are
+ * unavailable.
+ */
+export function parseFileInWorker(
+  file: File,
+  options: Omit<ParseOptions, "totalBytes"> = {},
+): Promise<FileUploadResult> {
+  const { rules, columnMapping, billingCycleStartDay, signal, onProgress } =
+    options;
+
+  if (typeof Worker === "undefined") {
+    return processFile(file, options);
+  }
+
+  return runInWorker<FileUploadResult>(
+    { type: "parse", file, rules, columnMapping, billingCycleStartDay },
+    signal,
+    (message, resolve) => {
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+      } else if (message.type === "result") {
+        resolve(message.result);
+      }
+    },
+    (error, resolve) => resolve({ success: false, error }),
+  );
+}
+
+/**
+ * Preview a report in a worker, like `parseFileInWorker`. JSON and XLSX
+ * exports are decoded whole before their first rows are known, which
+ * would otherwise freeze the page.
+ */
+export function previewFileInWorker(
+  file: File,
+  signal?: AbortSignal,
+): Promise<ReportPreview> {
+  if (typeof Worker === "undefined") {
+    return previewFile(file);
+  }
+
+  return runInWorker<ReportPreview>(
+    { type: "preview", file },
+    signal,
+    (message, resolve, reject) => {
+      if (message.type !== "preview") return;
+      if (message.preview) {
+        resolve(message.preview);
+      } else {
+        reject(new Error(message.error));
+      }
+    },
+    (error, _, reject) => reject(new Error(error)),
+  );
+}
@@ -0,0 +1,118 @@
+import { ViewState, formatViewHash } from "@/lib/viewState";
+
+/**
+ * Named views saved in local storage, and the JSON file format used to
+ * share them between teammates.
+ */
+
+export interface SavedView {
+  id: string;
+  name: string;
+  view: string; // Serialized like the URL hash, see `formatViewHash`
+  savedAt: string;
+}
+
+interface SavedViewsFile {
+  version: 1;
+  views: SavedView[];
+}
+
+const STORAGE_KEY = "githubreportsvisualizer.savedViews";
+
+function isSavedView(value: unknown): value is SavedView {
+  const view = value as SavedView;
+  return (
+    typeof view === "object" &&
+    view !== null &&
+    typeof view.name === "string" &&
+    view.name.trim() !== "" &&
+    typeof view.view === "string"
+  );
+}
+
+function createId(index: number): string {
+  return `view-${Date.now().toString(36)}-${index}`;
+}
+
+export function loadSavedViews(): SavedView[] {
+  if (typeof localStorage === "undefined") return [];
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const views = stored ? JSON.parse(stored) : [];
+    return Array.isArray(views) ? views.filter(isSavedView) : [];
+  } catch (error) {
+    console.warn("Failed to load saved views:", error);
+    return [];
+  }
+}
+
+export function saveSavedViews(views: SavedView[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+}
+
+/**
+ * Save a view under a name, replacing an existing view with the same name
+ */
+export function addSavedView(
+  views: SavedView[],
+  name: string,
+  view: ViewState,
+): SavedView[] {
+  const existing = views.find((v) => v.name === name);
+  const saved: SavedView = {
+    id: existing?.id ?? createId(views.length),
+    name,
+    view: formatViewHash(view),
+    savedAt: new Date().toISOString(),
+  };
+  return existing
+    ? views.map((v) => (v.id === existing.id ? saved : v))
+    : [...views, saved];
+}
+
+export function exportSavedViews(views: SavedView[]): string {
+  const file: SavedViewsFile = { version: 1, views };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Views from an exported file, merged into the existing ones. Imported
+ * views replace existing views of the same name.
+ */
+export function importSavedViews(
+  views: SavedView[],
+  content: string,
+): SavedView[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("The file is not valid JSON");
+  }
+
+  // Accept a bare array of views as well as the exported file
+  const candidates = Array.isArray(parsed)
+    ? parsed
+    : (parsed as Partial<SavedViewsFile> | null)?.views;
+  if (!Array.isArray(candidates)) {
+    throw new Error("The file doesn't contain saved views");
+  }
+  const imported = candidates.filter(isSavedView);
+  if (imported.length === 0) {
+    throw new Error("The file doesn't contain any valid saved views");
+  }
+
+  return imported.reduce((merged, view) => {
+    const existing = merged.find((v) => v.name === view.name);
+    const next: SavedView = {
+      id: existing?.id ?? createId(merged.length),
+      name: view.name,
+      view: view.view,
+      savedAt: view.savedAt || new Date().toISOString(),
+    };
+    return existing
+      ? merged.map((v) => (v.id === existing.id ? next : v))
+      : [...merged, next];
+  }, views);
+}
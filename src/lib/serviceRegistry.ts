@@ -0,0 +1,130 @@
+import { BillingData } from "@/types/billing";
+
+/**
+ * Registry of the GitHub services the visualizer knows about. Tabs,
+ * filters, charts and the default categorization rules are all generated
+ * from these entries, so supporting a new product is a single addition.
+ */
+
+export type ServiceId = string;
+
+export interface ServiceMatchRule {
+  name: string;
+  product?: string; // Exact match, case-insensitive
+  skuPattern?: string; // Regular expression, case-insensitive
+  unitType?: string; // Exact match, case-insensitive
+}
+
+export interface ServiceDefinition {
+  id: ServiceId;
+  label: string; // Short label used for tabs and selectors
+  title: string; // Heading used by the service's charts
+  color: string; // Series color in cross-service charts
+  rules: ServiceMatchRule[]; // Default rules that assign rows to the service
+  unitType?: string; // Unit assumed when an export has no unit_type column
+  storageUnits: boolean; // Whether the GB-hours/GB-months toggle applies
+  breakdownSelector: boolean; // Whether cost vs usage can be toggled
+  defaultBreakdown: "cost" | "quantity";
+  chartStrategy: "repository" | "sku";
+  detailedSingleOrgView?: boolean; // Detailed repository view for one org
+  summaryKey?: keyof Omit<
+    BillingData,
+    "month" | "total" | "services" | "period"
+  >; // Monthly summary bucket
+}
+
+export const OTHER_SERVICE_ID: ServiceId = "other";
+
+export const SERVICE_REGISTRY: ServiceDefinition[] = [
+  {
+    id: "actionsMinutes",
+    label: "Actions Minutes",
+    title: "GitHub Actions Minutes",
+    color: "#22c55e",
+    rules: [
+      {
+        name: "Actions runner minutes",
+        product: "actions",
+        skuPattern: "linux|windows|macos|self_hosted",
+      },
+    ],
+    unitType: "minutes",
+    storageUnits: false,
+    breakdownSelector: true,
+    defaultBreakdown: "quantity",
+    chartStrategy: "repository",
+    detailedSingleOrgView: true,
+    summaryKey: "actions",
+  },
+  {
+    id: "actionsStorage",
+    label: "Actions Storage",
+    title: "GitHub Actions Storage",
+    color: "#8b5cf6",
+    rules: [
+      {
+        name: "Actions storage",
+        product: "actions",
+        skuPattern: "^actions_storage$",
+      },
+    ],
+    unitType: "gigabyte-hours",
+    storageUnits: true,
+    breakdownSelector: true,
+    defaultBreakdown: "quantity",
+    chartStrategy: "repository",
+    summaryKey: "storage",
+  },
+  {
+    id: "packages",
+    label: "Packages",
+    title: "GitHub Packages",
+    color: "#3b82f6",
+    rules: [{ name: "Packages", product: "packages" }],
+    unitType: "gigabyte-hours",
+    storageUnits: true,
+    breakdownSelector: true,
+    defaultBreakdown: "quantity",
+    chartStrategy: "sku",
+    summaryKey: "packages",
+  },
+  {
+    id: "copilot",
+    label: "Copilot",
+    title: "GitHub Copilot",
+    color: "#ec4899",
+    rules: [{ name: "Copilot", product: "copilot" }],
+    unitType: "user-months",
+    storageUnits: false,
+    breakdownSelector: false,
+    defaultBreakdown: "quantity",
+    chartStrategy: "sku",
+  },
+  {
+    id: "codespaces",
+    label: "Codespaces",
+    title: "GitHub Codespaces",
+    color: "#f59e0b",
+    rules: [{ name: "Codespaces", product: "codespaces" }],
+    storageUnits: false,
+    breakdownSelector: false,
+    defaultBreakdown: "quantity",
+    chartStrategy: "sku",
+  },
+  {
+    // Catch-all for rows no other service claims; mixed units, so cost only
+    id: OTHER_SERVICE_ID,
+    label: "Other",
+    title: "Other Products",
+    color: "#64748b",
+    rules: [],
+    storageUnits: false,
+    breakdownSelector: false,
+    defaultBreakdown: "cost",
+    chartStrategy: "sku",
+  },
+];
+
+export function getService(id: ServiceId): ServiceDefinition | undefined {
+  return SERVICE_REGISTRY.find((service) => service.id === id);
+}
@@ -0,0 +1,58 @@
+import { DatasetRows } from "@/lib/columnarDataset";
+import { getService, ServiceId } from "@/lib/serviceRegistry";
+import { StorageUnit } from "@/lib/viewState";
+
+// Conversion constant: 1 month ≈ 730 hours (average)
+const HOURS_PER_MONTH = 730;
+
+// Convert GB-hours to GB-months
+function convertToGBMonths(gbHours: number): number {
+  return gbHours / HOURS_PER_MONTH;
+}
+
+/** Most common unit_type of the rows, if the export provides one */
+export function getUnitType({
+  dataset,
+  selection,
+}: DatasetRows): string | undefined {
+  let unitType: string | undefined;
+  let rows = 0;
+  dataset.countBy(selection, "unitType").forEach((count, value) => {
+    if (value && count > rows) {
+      unitType = value;
+      rows = count;
+    }
+  });
+  return unitType;
+}
+
+/**
+ * Format a usage quantity in the report's own unit, falling back to the
+ * service's conventional unit for exports without a unit_type column.
+ */
+export function formatQuantityForUnit(
+  value: number,
+  unitType: string | undefined,
+  serviceType: ServiceId,
+  storageUnit: StorageUnit = "gb-hours",
+): string {
+  const unit =
+    unitType?.toLowerCase() ?? getService(serviceType)?.unitType ?? "";
+
+  switch (unit) {
+    case "minutes":
+      return `${value.toLocaleString()} min`;
+    case "gigabyte-hours":
+      if (storageUnit === "gb-months") {
+        const gbMonths = convertToGBMonths(value);
+        return `${gbMonths.toLocaleString(undefined, { maximumFractionDigits: 2 })} GB·mo`;
+      }
+      return `${value.toLocaleString()} GB·h`;
+    case "user-months":
+      return `${value.toFixed(2)} users`;
+    case "":
+      return value.toLocaleString();
+    default:
+      return `${value.toLocaleString(undefined, { maximumFractionDigits: 2 })} ${unit}`;
+  }
+}
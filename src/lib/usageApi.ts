@@ -0,0 +1,146 @@
+/**
+ * Fetches usage straight from the enhanced billing usage REST API, for
+ * github.com or a GitHub Enterprise Server (or mock) base URL. The result
+ * is packaged as a JSON file so it goes through the same upload path.
+ */
+
+export type UsageScope = "organization" | "enterprise" | "user";
+
+export interface UsageApiRequest {
+  baseUrl?: string;
+  token: string;
+  scope: UsageScope;
+  name: string; // Organization, enterprise slug or username
+  year?: number;
+  month?: number;
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_API_BASE_URL = "https://api.github.com";
+
+const SCOPE_PATHS: Record<UsageScope, string> = {
+  organization: "organizations",
+  enterprise: "enterprises",
+  user: "users",
+};
+
+export function getUsageUrl({
+  baseUrl = DEFAULT_API_BASE_URL,
+  scope,
+  name,
+  year,
+  month,
+}: UsageApiRequest): string {
+  const url = new URL(
+    `${baseUrl.replace(/\/+$/, "")}/${SCOPE_PATHS[scope]}/` +
+      `${encodeURIComponent(name)}/settings/billing/usage`,
+  );
+  if (year) url.searchParams.set("year", String(year));
+  if (month) url.searchParams.set("month", String(month));
+  return url.toString();
+}
+
+/**
+ * The URL of the `rel="next"` page in a `Link` header, if any, resolved
+ * against the page it came with. Links to another origin are refused so
+ * the token never leaves the base URL.
+ */
+function getNextPage(link: string | null, current: string): string | null {
+  const next = (link || "")
+    .split(",")
+    .find((part) => /;\s*rel="?next"?/.test(part));
+  const target = next?.match(/<([^>]+)>/)?.[1];
+  if (!target) return null;
+
+  const url = new URL(target, current);
+  if (url.origin !== new URL(current).origin) {
+    throw new Error(
+      `The next page of usage is on another server (${url.origin}); ` +
+        "stopped so the token is not sent there.",
+    );
+  }
+  return url.toString();
+}
+
+async function describeError(response: Response): Promise<string> {
+  let message = response.statusText;
+  try {
+    const body = (await response.json()) as { message?: string };
+    message = body.message || message;
+  } catch {
+    // Not a JSON error body; keep the status text
+  }
+
+  if (response.status === 401) {
+    return `The token was rejected (401): ${message}`;
+  }
+  if (response.status === 403 || response.status === 404) {
+    return (
+      `Usage isn't available for this account (${response.status}): ` +
+      `${message}. Check the name and that the token can read billing.`
+    );
+  }
+  return `Usage request failed (${response.status}): ${message}`;
+}
+
+/**
+ * Fetch every page of usage items and return them as an uploadable
+ * `usageItems` JSON file. The token is only sent with these requests.
+ * There is no page limit, as a partial export would look complete; the
+ * fetch can be cancelled through the signal instead.
+ */
+export async function fetchUsageExport(
+  request: UsageApiRequest,
+): Promise<File> {
+  const headers = {
+    Accept: "application/vnd.github+json",
+    Authorization: `Bearer ${request.token}`,
+    "X-GitHub-Api-Version": "2022-11-28",
+  };
+  const usageItems: unknown[] = [];
+  const fetched = new Set<string>();
+  let url: string | null = getUsageUrl(request);
+
+  while (url) {
+    // An endpoint linking back to a page it sent would never finish
+    if (fetched.has(url)) {
+      throw new Error(
+        "The usage API linked back to a page it already sent; stopped " +
+          "instead of counting its items twice.",
+      );
+    }
+    fetched.add(url);
+
+    let response: Response;
+    try {
+      response = await fetch(url, { headers, signal: request.signal });
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      throw new Error(
+        `Could not reach ${new URL(url).origin}. Check the base URL and ` +
+          "that it allows requests from this page (CORS).",
+      );
+    }
+
+    if (!response.ok) {
+      throw new Error(await describeError(response));
+    }
+
+    const body = (await response.json()) as { usageItems?: unknown };
+    if (!Array.isArray(body.usageItems)) {
+      throw new Error("The response does not contain any usageItems");
+    }
+    usageItems.push(...body.usageItems);
+    url = getNextPage(response.headers.get("Link"), url);
+  }
+
+  const period = [request.year, request.month]
+    .filter(Boolean)
+    .map((part) => String(part).padStart(2, "0"))
+    .join("-");
+  return new File(
+    [JSON.stringify({ usageItems })],
+    `usage-${request.name}${period ? `-${period}` : ""}.json`,
+    { type: "application/json" },
+  );
+}
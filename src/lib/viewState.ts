@@ -0,0 +1,129 @@
+import { SERVICE_REGISTRY, ServiceId } from "@/lib/serviceRegistry";
+import { EMPTY_FILTERS, FilterState } from "@/lib/filters";
+import { formatFilterQuery, parseFilterQuery } from "@/lib/filterQuery";
+import {
+  DEFAULT_GRANULARITY,
+  Granularity,
+  isGranularity,
+} from "@/lib/granularity";
+
+/**
+ * What the user is looking at (tab, filters, breakdown, storage unit and
+ * time granularity), kept in the URL hash so a view can be bookmarked or
+ * shared. Only view settings are serialized; report data never leaves the
+ * browser.
+ */
+
+export type Breakdown = "cost" | "quantity";
+export type StorageUnit = "gb-hours" | "gb-months";
+
+export interface ViewState {
+  tab: string;
+  filters: FilterState;
+  overrides: Record<string, FilterState>; // Per-tab filter overrides
+  breakdown: Record<ServiceId, Breakdown>;
+  storageUnit: Record<ServiceId, StorageUnit>;
+  granularity: Granularity;
+}
+
+export const DEFAULT_TAB = "overview";
+
+export function getDefaultBreakdowns(): Record<ServiceId, Breakdown> {
+  return Object.fromEntries(
+    SERVICE_REGISTRY.map((service) => [service.id, service.defaultBreakdown]),
+  );
+}
+
+export function getDefaultStorageUnits(): Record<ServiceId, StorageUnit> {
+  return Object.fromEntries(
+    SERVICE_REGISTRY.filter((service) => service.storageUnits).map(
+      (service) => [service.id, "gb-hours"],
+    ),
+  );
+}
+
+export function getDefaultViewState(): ViewState {
+  return {
+    tab: DEFAULT_TAB,
+    filters: EMPTY_FILTERS,
+    overrides: {},
+    breakdown: getDefaultBreakdowns(),
+    storageUnit: getDefaultStorageUnits(),
+    granularity: DEFAULT_GRANULARITY,
+  };
+}
+
+/** Serialize a view, leaving out everything that is at its default */
+export function formatViewHash(view: ViewState): string {
+  const params = new URLSearchParams();
+  const defaultBreakdowns = getDefaultBreakdowns();
+  const defaultStorageUnits = getDefaultStorageUnits();
+
+  if (view.tab !== DEFAULT_TAB) params.set("tab", view.tab);
+
+  const query = formatFilterQuery(view.filters);
+  if (query) params.set("q", query);
+  Object.entries(view.overrides).forEach(([tab, filters]) => {
+    // An override without filters still has to be kept
+    params.set(`q.${tab}`, formatFilterQuery(filters));
+  });
+
+  Object.entries(view.breakdown).forEach(([service, breakdown]) => {
+    if (breakdown !== defaultBreakdowns[service]) {
+      params.set(`breakdown.${service}`, breakdown);
+    }
+  });
+  Object.entries(view.storageUnit).forEach(([service, unit]) => {
+    if (unit !== defaultStorageUnits[service]) {
+      params.set(`unit.${service}`, unit);
+    }
+  });
+  if (view.granularity !== DEFAULT_GRANULARITY) {
+    params.set("granularity", view.granularity);
+  }
+
+  return params.toString();
+}
+
+/**
+ * Restore a view from a URL hash. Settings that don't parse are dropped
+ * and fall back to their defaults.
+ */
+export function parseViewHash(hash: string): ViewState {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const view = getDefaultViewState();
+
+  params.forEach((value, key) => {
+    const dot = key.indexOf(".");
+    const name = dot === -1 ? key : key.slice(0, dot);
+    const id = dot === -1 ? "" : key.slice(dot + 1);
+
+    if (name === "tab" && !id) {
+      view.tab = value;
+    } else if (name === "q") {
+      const { filters } = parseFilterQuery(value);
+      if (!filters) return;
+      if (id) {
+        view.overrides[id] = filters;
+      } else {
+        view.filters = filters;
+      }
+    } else if (
+      name === "breakdown" &&
+      id in view.breakdown &&
+      (value === "cost" || value === "quantity")
+    ) {
+      view.breakdown[id] = value;
+    } else if (
+      name === "unit" &&
+      id in view.storageUnit &&
+      (value === "gb-hours" || value === "gb-months")
+    ) {
+      view.storageUnit[id] = value;
+    } else if (name === "granularity" && !id && isGranularity(value)) {
+      view.granularity = value;
+    }
+  });
+
+  return view;
+}
@@ -0,0 +1,201 @@
+import { CSVRecord } from "@/lib/csvTokenizer";
+import { ZipEntry, readZipEntryText } from "@/lib/zipArchive";
+
+/**
+ * Reads the first worksheet of an XLSX workbook into CSV-style records.
+ * Only what tabular billing data needs is understood: shared and inline
+ * strings, numbers, booleans and date-formatted cells.
+ */
+
+// Built-in number formats that display a date or time
+const BUILTIN_DATE_FORMATS = new Set([
+  14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47,
+]);
+
+// Days between the spreadsheet epoch (1899-12-30) and the Unix epoch
+const EXCEL_EPOCH_OFFSET = 25569;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1].toLowerCase() === "x"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return String.fromCodePoint(code);
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/** Concatenate the `<t>` runs of a string item, ignoring phonetic hints */
+function readText(xml: string): string {
+  const runs = xml
+    .replace(/<rPh\b[\s\S]*?<\/rPh>/g, "")
+    .match(/<t\b[^>]*>[\s\S]*?<\/t>/g);
+  return (runs || [])
+    .map((run) => decodeXml(run.replace(/^<t\b[^>]*>|<\/t>$/g, "")))
+    .join("");
+}
+
+function readSharedStrings(xml: string): string[] {
+  return (xml.match(/<si\b[\s\S]*?<\/si>/g) || []).map(readText);
+}
+
+/** Style indices whose number format displays a date */
+function readDateStyles(xml: string): Set<number> {
+  const customDateFormats = new Set<number>();
+  (xml.match(/<numFmt\b[^>]*>/g) || []).forEach((tag) => {
+    // Drop literal text and [color]/[locale] sections before looking for d/m/y
+    const code = (getAttribute(tag, "formatCode") || "")
+      .replace(/"[^"]*"|\[[^\]]*\]/g, "")
+      .toLowerCase();
+    if (/[dmy]/.test(code)) {
+      customDateFormats.add(Number(getAttribute(tag, "numFmtId")));
+    }
+  });
+
+  const cellXfs = xml.match(/<cellXfs\b[\s\S]*?<\/cellXfs>/)?.[0] || "";
+  const dateStyles = new Set<number>();
+  (cellXfs.match(/<xf\b[^>]*>/g) || []).forEach((tag, index) => {
+    const formatId = Number(getAttribute(tag, "numFmtId") || 0);
+    if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+      dateStyles.add(index);
+    }
+  });
+  return dateStyles;
+}
+
+/** Convert a spreadsheet date serial to an ISO date (or date-time) */
+function serialToISODate(serial: number): string {
+  const iso = new Date(
+    Math.round((serial - EXCEL_EPOCH_OFFSET) * MS_PER_DAY),
+  ).toISOString();
+  return Number.isInteger(serial) ? iso.slice(0, 10) : iso.slice(0, 19) + "Z";
+}
+
+/** Zero-based column index of a cell reference such as `AB12` */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || "";
+  const position = [...letters].reduce(
+    (acc, letter) => acc * 26 + letter.charCodeAt(0) - 64,
+    0,
+  );
+  return position - 1;
+}
+
+/** Path of the first worksheet, resolved through the workbook relationships */
+function findFirstSheet(
+  workbook: string,
+  relationships: string,
+  entryNames: Set<string>,
+): string | undefined {
+  const sheetTag = workbook.match(/<sheet\b[^>]*>/)?.[0];
+  const relationshipId = sheetTag && getAttribute(sheetTag, "r:id");
+
+  const target = (relationships.match(/<Relationship\b[^>]*>/g) || [])
+    .filter((tag) => getAttribute(tag, "Id") === relationshipId)
+    .map((tag) => getAttribute(tag, "Target"))[0];
+
+  if (target) {
+    const path = target.startsWith("/")
+      ? target.slice(1)
+      : `xl/${target.replace(/^\.\//, "")}`;
+    if (entryNames.has(path)) return path;
+  }
+
+  return [...entryNames].find((name) =>
+    /^xl\/worksheets\/[^/]+\.xml$/.test(name),
+  );
+}
+
+export function isXlsxArchive(entries: ZipEntry[]): boolean {
+  return entries.some((entry) => entry.name === "xl/workbook.xml");
+}
+
+export async function readXlsxRecords(
+  archive: Blob,
+  entries: ZipEntry[],
+): Promise<CSVRecord[]> {
+  const entriesByName = new Map(entries.map((entry) => [entry.name, entry]));
+  const readPart = async (name: string) => {
+    const entry = entriesByName.get(name);
+    return entry ? readZipEntryText(archive, entry) : "";
+  };
+
+  const sheetPath = findFirstSheet(
+    await readPart("xl/workbook.xml"),
+    await readPart("xl/_rels/workbook.xml.rels"),
+    new Set(entriesByName.keys()),
+  );
+  if (!sheetPath) {
+    throw new Error("The workbook does not contain any worksheets");
+  }
+
+  const sharedStrings = readSharedStrings(
+    await readPart("xl/sharedStrings.xml"),
+  );
+  const dateStyles = readDateStyles(await readPart("xl/styles.xml"));
+  const sheet = await readPart(sheetPath);
+
+  const records: CSVRecord[] = [];
+  const rowPattern = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+  const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+
+  for (const [, rowAttributes, rowXml] of sheet.matchAll(rowPattern)) {
+    if (!rowXml) continue;
+
+    const fields: string[] = [];
+    for (const [, cellAttributes, cellXml = ""] of rowXml.matchAll(
+      cellPattern,
+    )) {
+      const reference = getAttribute(cellAttributes, "r");
+      const index = reference ? columnIndex(reference) : fields.length;
+      const type = getAttribute(cellAttributes, "t");
+      const style = Number(getAttribute(cellAttributes, "s") || 0);
+      const raw = cellXml.match(/<v\b[^>]*>([\s\S]*?)<\/v>/)?.[1];
+
+      let value: string;
+      if (type === "s") {
+        value = sharedStrings[Number(raw)] ?? "";
+      } else if (type === "inlineStr") {
+        value = readText(cellXml);
+      } else if (type === "b") {
+        value = raw === "1" ? "TRUE" : "FALSE";
+      } else if (raw === undefined) {
+        value = "";
+      } else if (type !== "str" && type !== "e" && dateStyles.has(style)) {
+        value = serialToISODate(Number(raw));
+      } else {
+        value = decodeXml(raw);
+      }
+
+      while (fields.length < index) fields.push("");
+      fields[index] = value;
+    }
+
+    // Skip rows that only carry formatting
+    if (fields.some((field) => field !== "")) {
+      records.push({
+        fields,
+        line: Number(getAttribute(rowAttributes, "r")) || records.length + 1,
+      });
+    }
+  }
+
+  return records;
+}
@@ -0,0 +1,150 @@
+/**
+ * Minimal ZIP reader for uploaded archives and the ZIP container of XLSX
+ * workbooks. Entries are located through the central directory and
+ * inflated with the browser's DecompressionStream.
+ */
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const EOCD_SIZE = 22;
+const LOCAL_HEADER_SIZE = 30;
+// The end record may be followed by a comment of up to 64 KiB
+const EOCD_SEARCH_BYTES = EOCD_SIZE + 0xffff;
+
+/** Inflate a byte stream with the browser's built-in decompressor */
+export function decompress(
+  stream: ReadableStream<Uint8Array>,
+  format: CompressionFormat,
+): ReadableStream<Uint8Array> {
+  // DecompressionStream is typed to accept any BufferSource on its writable
+  // side, which TypeScript doesn't consider a Uint8Array sink
+  return stream.pipeThrough(
+    new DecompressionStream(format) as ReadableWritablePair<
+      Uint8Array,
+      Uint8Array
+    >,
+  );
+}
+
+/** List the entries of an archive from its central directory */
+export async function readZipEntries(archive: Blob): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, archive.size - EOCD_SEARCH_BYTES);
+  const tail = new DataView(await archive.slice(tailStart).arrayBuffer());
+
+  let eocd = -1;
+  for (let i = tail.byteLength - EOCD_SIZE; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error("ZIP archive is corrupt or incomplete");
+  }
+
+  const entryCount = tail.getUint16(eocd + 10, true);
+  const directorySize = tail.getUint32(eocd + 12, true);
+  const directoryOffset = tail.getUint32(eocd + 16, true);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const directory = new DataView(
+    await archive
+      .slice(directoryOffset, directoryOffset + directorySize)
+      .arrayBuffer(),
+  );
+  const decoder = new TextDecoder("utf-8");
+  const entries: ZipEntry[] = [];
+
+  let offset = 0;
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new Error("ZIP archive has a corrupt central directory");
+    }
+
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+
+    entries.push({
+      name: decoder.decode(
+        new Uint8Array(directory.buffer, offset + 46, nameLength),
+      ),
+      method: directory.getUint16(offset + 10, true),
+      compressedSize: directory.getUint32(offset + 20, true),
+      size: directory.getUint32(offset + 24, true),
+      localHeaderOffset: directory.getUint32(offset + 42, true),
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Stream the uncompressed contents of an entry, optionally reporting how
+ * far into the archive reading has got
+ */
+export async function openZipEntry(
+  archive: Blob,
+  entry: ZipEntry,
+  onBytesRead?: (bytesRead: number) => void,
+): Promise<ReadableStream<Uint8Array>> {
+  const headerStart = entry.localHeaderOffset;
+  const header = new DataView(
+    await archive
+      .slice(headerStart, headerStart + LOCAL_HEADER_SIZE)
+      .arrayBuffer(),
+  );
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`ZIP entry ${entry.name} is corrupt`);
+  }
+
+  const dataStart =
+    headerStart +
+    LOCAL_HEADER_SIZE +
+    header.getUint16(26, true) +
+    header.getUint16(28, true);
+  let stream: ReadableStream<Uint8Array> = archive
+    .slice(dataStart, dataStart + entry.compressedSize)
+    .stream();
+
+  if (onBytesRead) {
+    let bytesRead = dataStart;
+    stream = stream.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          bytesRead += chunk.byteLength;
+          onBytesRead(bytesRead);
+          controller.enqueue(chunk);
+        },
+      }),
+    );
+  }
+
+  if (entry.method === 0) return stream;
+  if (entry.method === 8) {
+    return decompress(stream, "deflate-raw");
+  }
+  throw new Error(
+    `ZIP entry ${entry.name} uses unsupported compression (${entry.method})`,
+  );
+}
+
+export async function readZipEntryText(
+  archive: Blob,
+  entry: ZipEntry,
+): Promise<string> {
+  return new Response(await openZipEntry(archive, entry)).text();
+}
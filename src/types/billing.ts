@@ -3,25 +3,48 @@ export interface BillingData {
   actions: number;
   packages: number;
   storage: number;
-  total?: number;
+  total?: number; // Across every service, not just the buckets above
+  services?: Record<string, number>; // Cost per service registry id
+  period?: { start: string; end: string }; // Billing period the row covers
 }
 
+/** Columns present in an export that the parser has no dedicated field for */
+export type ServiceDataExtras = Record<string, string>;
+
 export interface ServiceData {
   date: string;
-  cost: number;
+  cost: number; // Net amount billed
   quantity: number;
   sku: string;
+  product?: string;
+  unitType?: string; // e.g. "minutes", "gigabyte-hours", "user-months"
+  appliedCostPerQuantity?: number;
+  grossAmount?: number;
+  discountAmount?: number;
   organization?: string;
   repository?: string;
   costCenter?: string;
+  model?: string;
+  extras?: ServiceDataExtras;
 }
 
-export interface CategorizedBillingData {
-  actionsMinutes: ServiceData[];
-  actionsStorage: ServiceData[];
-  packages: ServiceData[];
-  copilot: ServiceData[];
-  codespaces: ServiceData[];
+/** Rows grouped by service, keyed by service registry id */
+export type CategorizedBillingData = Record<string, ServiceData[]>;
+
+/** An uploaded file and what it contributed to a (possibly merged) report */
+export type ReportFormatId = "enhanced" | "legacy" | "usageApi";
+
+export interface ReportSource {
+  fileName: string;
+  format?: ReportFormatId; // CSV layout detected from the header row
+  rowCount: number;
+  duplicateCount: number; // Rows dropped as duplicates of earlier files
+  period: {
+    start: string;
+    end: string;
+  };
+  organizations: string[];
+  error?: string;
 }
 
 export interface GitHubBillingReport {
@@ -32,10 +55,42 @@ export interface GitHubBillingReport {
   };
   data: BillingData[];
   categorizedData?: CategorizedBillingData;
+  sources?: ReportSource[];
+  diagnostics?: ParseDiagnostics[]; // One entry per parsed file
+}
+
+export type DiagnosticKind =
+  | "skippedRow"
+  | "invalidNumber"
+  | "negativeAmount"
+  | "futureDate"
+  | "unknownSku";
+
+export interface RowDiagnostic {
+  kind: DiagnosticKind;
+  line: number; // 1-based line in the source file
+  message: string;
+  rejected: boolean; // Whether the row was left out of the report
+  values: string[]; // Raw row values, in header order
+}
+
+export interface ParseDiagnostics {
+  fileName: string;
+  header: string[];
+  counts: Partial<Record<DiagnosticKind, number>>; // Totals per kind
+  rejectedRows: number;
+  issues: RowDiagnostic[]; // Every rejected row; warnings capped per kind
 }
 
 export interface FileUploadResult {
   success: boolean;
   data?: GitHubBillingReport;
   error?: string;
+  diagnostics?: ParseDiagnostics;
+}
+
+export interface ParseProgress {
+  rowsParsed: number;
+  bytesRead: number;
+  totalBytes: number;
 }
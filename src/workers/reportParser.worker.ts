@@ -0,0 +1,56 @@
+/**
+ * Dedicated worker that previews, parses, categorizes and summarizes an
+ * uploaded billing report off the main thread.
+ */
+import { ReportPreview, previewFile, processFile } from "@/lib/fileParser";
+import { CategorizationRule } from "@/lib/categorizationRules";
+import { ColumnMapping } from "@/lib/reportFormats";
+import { FileUploadResult, ParseProgress } from "@/types/billing";
+
+export type ReportParserRequest =
+  | {
+      type: "parse";
+      file: File;
+      rules?: CategorizationRule[];
+      columnMapping?: ColumnMapping;
+      billingCycleStartDay?: number;
+    }
+  | { type: "preview"; file: File };
+
+export type ReportParserResponse =
+  | { type: "progress"; progress: ParseProgress }
+  | { type: "result"; result: FileUploadResult }
+  | { type: "preview"; preview?: ReportPreview; error?: string };
+
+const respond = (message: ReportParserResponse) => self.postMessage(message);
+
+self.addEventListener(
+  "message",
+  async (event: MessageEvent<ReportParserRequest>) => {
+    const request = event.data;
+
+    if (request.type === "preview") {
+      try {
+        respond({ type: "preview", preview: await previewFile(request.file) });
+      } catch (error) {
+        respond({
+          type: "preview",
+          error:
+            error instanceof Error ? error.message : "Failed to preview file",
+        });
+      }
+      return;
+    }
+
+    if (request.type !== "parse") return;
+
+    const result = await processFile(request.file, {
+      rules: request.rules,
+      columnMapping: request.columnMapping,
+      billingCycleStartDay: request.billingCycleStartDay,
+      onProgress: (progress) => respond({ type: "progress", progress }),
+    });
+
+    respond({ type: "result", result });
+  },
+);